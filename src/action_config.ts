@@ -0,0 +1,287 @@
+import * as core from '@actions/core';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+import { redactUrl } from './utils';
+import { validateToolVersion } from './tool_version';
+import { SigningRule, readSigningConfigFile } from './signing_config_file';
+
+// Defaults of action.yml, for inputs the code can't run without
+const DEFAULT_DIGICERT_CDN = "https://pki-downloads.digicert.com/stm/latest";
+const DEFAULT_CACHE_VERSION = "0.0.0-0";
+const DEFAULT_CERTIFICATE_EXPIRY_DAYS = 30;
+const DEFAULT_DOWNLOAD_TIMEOUT_SECONDS = 600;
+
+/** Deprecated input names and the inputs replacing them */
+const deprecatedInputs: Record<string, string> = {
+    "diegest-alg": "digest-alg",
+};
+
+/** The inputs of the action, read and validated once at startup */
+export type ActionConfig = {
+    // Tool setup
+    readonly digicertCdn: string[];
+    /** Pinned tool version, undefined for the latest tools */
+    readonly toolVersion?: string;
+    readonly cacheVersion: string;
+    /** Absolute path of the tools-source-dir mirror, undefined to download from digicert-cdn */
+    readonly toolsSourceDir?: string;
+    readonly useToolManifest: boolean;
+    readonly useBinarySha256Checksum: boolean;
+    readonly useGithubCachingService: boolean;
+    readonly removePkcs11Config: boolean;
+    readonly proxyUrl: string;
+    readonly noProxy: string;
+    readonly caBundle: string;
+    readonly requireToolSignature: boolean;
+    readonly toolSigningPublicKey: string;
+    /** Time limit of a single tool download in milliseconds */
+    readonly downloadTimeoutMs: number;
+
+    // Credentials
+    readonly clientCertB64: string;
+    readonly clientCertPassword: string;
+    readonly preflight: boolean;
+
+    // Simple signing
+    readonly simpleSigningMode: boolean;
+    readonly input: string[];
+    readonly keypairAlias: string;
+    readonly digestAlg: string;
+    readonly failFast: boolean;
+    readonly zeroExitCodeOnFailure: boolean;
+    readonly unsigned: boolean;
+    readonly timestamp: boolean;
+    readonly bulkSignMode: boolean;
+    readonly verifyAfterSign: boolean;
+    readonly dryRun: boolean;
+    /** Number of smctl processes signing in parallel */
+    readonly concurrency: number;
+    /** How often files that failed to sign are signed again */
+    readonly signRetries: number;
+    /** Time limit of a single smctl sign, keypair get, healthcheck or sign verify process in milliseconds, undefined for no limit */
+    readonly signTimeoutMs?: number;
+    /** Path of the signing configuration file, undefined without one */
+    readonly configFile?: string;
+    readonly signingRules: SigningRule[];
+
+    // Certificate and signing policy
+    readonly certificateExpiryDays: number;
+    readonly failOnCertificateExpiry: boolean;
+    readonly minimumDigestAlg: string;
+    readonly allowedKeyAlgorithms: string[];
+    readonly minimumRsaKeySize?: number;
+};
+
+function validateCdnUrl(cdn: string): string {
+    // Security: Validate that CDN URL uses HTTPS to prevent MITM attacks
+    if (!cdn.startsWith('https://')) {
+        throw new Error(
+            `Invalid digicert-cdn URL: "${cdn}". ` +
+            `The CDN URL must use HTTPS protocol for security. ` +
+            `HTTP or other protocols are not allowed to prevent man-in-the-middle attacks.`
+        );
+    }
+    return cdn;
+};
+
+function resolveToolsSourceDir(input: string): string | undefined {
+    if (!input) {
+        return undefined;
+    }
+    if (input.startsWith('file://')) {
+        return fileURLToPath(input);
+    }
+    if (/^[a-z][a-z0-9+.-]+:\/\//i.test(input)) {
+        throw new Error(
+            `Invalid tools-source-dir "${input}". Expected a local directory or a file:// URL, ` +
+            `use digicert-cdn for remote locations.`
+        );
+    }
+    return path.resolve(input);
+};
+
+function validateProxyUrl(proxyUrl: string): string {
+    if (proxyUrl && !/^https?:\/\//.test(proxyUrl)) {
+        throw new Error(`Invalid proxy-url "${redactUrl(proxyUrl)}". Expected an http:// or https:// URL.`);
+    }
+    return proxyUrl;
+};
+
+function parseCount(name: string, value: string, expected: string, min: number): number | undefined {
+    if (!value) {
+        return undefined;
+    }
+    const count = Number(value);
+    if (!Number.isInteger(count) || count < min) {
+        throw new Error(`Invalid ${name} ${value}. Expected ${expected}`);
+    }
+    return count;
+};
+
+/**
+ * Reads every input of the action into an ActionConfig. Deprecated inputs are mapped
+ * to their replacements with a warning, and in simple-signing mode inputs that aren't
+ * given are read from the signing configuration file.
+ *
+ * @returns ActionConfig - The validated inputs
+ * @throws Error listing every invalid input and conflicting combination of inputs
+ */
+export function loadActionConfig(): ActionConfig {
+    const errors: string[] = [];
+    function validated<T>(read: () => T, fallback: T): T {
+        try {
+            return read();
+        } catch (error) {
+            errors.push((error as Error).message);
+            return fallback;
+        }
+    }
+    const inputs: Record<string, string> = {};
+    for (const [deprecated, replacement] of Object.entries(deprecatedInputs)) {
+        const value = core.getInput(deprecated).trim();
+        if (!value) {
+            continue;
+        }
+        if (core.getInput(replacement).trim()) {
+            core.warning(`Ignoring the deprecated ${deprecated} input, ${replacement} is set`);
+        } else {
+            core.warning(`The ${deprecated} input is deprecated and will be removed in a future version, use ${replacement} instead`);
+            inputs[replacement] = value;
+        }
+    }
+
+    // The file only holds simple-signing inputs, without simple-signing-mode it would only cause conflicts
+    const simpleSigningMode = validated(() => core.getBooleanInput('simple-signing-mode'), false);
+    const configFile = simpleSigningMode
+        ? validated(() => readSigningConfigFile(core.getInput('config-file').trim()), undefined)
+        : undefined;
+    const fileInputs = configFile?.inputs || {};
+    const text = (name: string) => core.getInput(name).trim() || inputs[name] || fileInputs[name] || '';
+    const lines = (name: string) => text(name).split('\n').map(it => it.trim()).filter(it => it.length > 0);
+    const flag = (name: string) => validated(() => core.getBooleanInput(name), false);
+    const milliseconds = (name: string) => {
+        const seconds = validated(() => parseCount(name, text(name), 'a whole number of seconds, at least 1', 1), undefined);
+        return seconds === undefined ? undefined : seconds * 1000;
+    };
+    // Flags the file can set have no default in action.yml, an empty input falls back to the file
+    const fileFlag = (name: string, fallback: boolean) => validated(() => {
+        if (core.getInput(name)) {
+            return core.getBooleanInput(name);
+        }
+        return fileInputs[name] ? fileInputs[name] === 'true' : fallback;
+    }, fallback);
+
+    const digicertCdn = lines('digicert-cdn');
+    const config: ActionConfig = {
+        digicertCdn: validated(() => (digicertCdn.length > 0 ? digicertCdn : [DEFAULT_DIGICERT_CDN]).map(validateCdnUrl), []),
+        toolVersion: validated(() => validateToolVersion(core.getInput('tool-version')), undefined),
+        cacheVersion: text('cache-version') || DEFAULT_CACHE_VERSION,
+        toolsSourceDir: validated(() => resolveToolsSourceDir(text('tools-source-dir')), undefined),
+        useToolManifest: flag('use-tool-manifest'),
+        useBinarySha256Checksum: flag('use-binary-sha256-checksum'),
+        useGithubCachingService: flag('use-github-caching-service'),
+        removePkcs11Config: flag('remove-pkcs11-config'),
+        proxyUrl: validated(() => validateProxyUrl(text('proxy-url')), ''),
+        noProxy: text('no-proxy'),
+        caBundle: text('ca-bundle'),
+        requireToolSignature: flag('require-tool-signature'),
+        toolSigningPublicKey: text('tool-signing-public-key'),
+        downloadTimeoutMs: milliseconds('download-timeout') ?? DEFAULT_DOWNLOAD_TIMEOUT_SECONDS * 1000,
+
+        clientCertB64: core.getInput('client-cert-b64'),
+        clientCertPassword: core.getInput('client-cert-password'),
+        preflight: flag('preflight'),
+
+        simpleSigningMode,
+        input: lines('input'),
+        keypairAlias: text('keypair-alias'),
+        digestAlg: text('digest-alg'),
+        failFast: fileFlag('fail-fast', true),
+        zeroExitCodeOnFailure: flag('zero-exit-code-on-failure'),
+        unsigned: fileFlag('unsigned', false),
+        timestamp: fileFlag('timestamp', true),
+        bulkSignMode: fileFlag('bulk-sign-mode', false),
+        verifyAfterSign: fileFlag('verify-after-sign', false),
+        dryRun: flag('dry-run'),
+        concurrency: validated(() => parseCount(
+            'concurrency', text('concurrency'), 'a whole number of parallel smctl processes, at least 1', 1
+        ), undefined) ?? 1,
+        signRetries: validated(() => parseCount(
+            'sign-retries', text('sign-retries'), 'a whole number of retries', 0
+        ), undefined) ?? 0,
+        signTimeoutMs: milliseconds('sign-timeout'),
+        configFile: configFile?.path,
+        signingRules: configFile?.rules || [],
+
+        certificateExpiryDays: validated(() => parseCount(
+            'certificate-expiry-days', text('certificate-expiry-days'), 'a whole number of days', 0
+        ), undefined) ?? DEFAULT_CERTIFICATE_EXPIRY_DAYS,
+        failOnCertificateExpiry: flag('fail-on-certificate-expiry'),
+        minimumDigestAlg: text('minimum-digest-alg'),
+        allowedKeyAlgorithms: text('allowed-key-algorithms').split(/[,\n]/).map(it => it.trim()).filter(it => it.length > 0),
+        minimumRsaKeySize: validated(() => parseCount(
+            'minimum-rsa-key-size', text('minimum-rsa-key-size'), 'a key size in bits', 1
+        ), undefined),
+    };
+
+    if (!config.simpleSigningMode) {
+        if (config.bulkSignMode) {
+            errors.push(`bulk-sign-mode only works with simple-signing-mode: true`);
+        }
+        if (config.verifyAfterSign) {
+            errors.push(`verify-after-sign only works with simple-signing-mode: true`);
+        }
+        if (config.dryRun) {
+            errors.push(`dry-run only works with simple-signing-mode: true`);
+        }
+        if (config.concurrency > 1) {
+            errors.push(`concurrency only works with simple-signing-mode: true`);
+        }
+        if (config.signRetries > 0) {
+            errors.push(`sign-retries only works with simple-signing-mode: true`);
+        }
+        if (core.getInput('config-file').trim()) {
+            errors.push(`config-file only works with simple-signing-mode: true`);
+        }
+    }
+    if (config.signRetries > 0 && config.failFast) {
+        // smctl stops at the first failure with fail-fast, the files after it are neither signed nor reported as failed
+        errors.push(`sign-retries only works with fail-fast: false`);
+    }
+    if (config.requireToolSignature && !config.toolSigningPublicKey) {
+        errors.push(`require-tool-signature needs tool-signing-public-key, the key the tool signatures are verified with`);
+    }
+    if (config.clientCertPassword && !config.clientCertB64) {
+        errors.push(`client-cert-password is set without client-cert-b64, use SM_CLIENT_CERT_PASSWORD with SM_CLIENT_CERT_FILE`);
+    }
+
+    if (errors.length === 1) {
+        throw new Error(errors[0]);
+    }
+    if (errors.length > 1) {
+        throw new Error(`Invalid action inputs:\n  - ${errors.join('\n  - ')}`);
+    }
+    return config;
+};
+
+var startupConfig: ActionConfig | undefined;
+
+/** Loads the config at startup, so invalid inputs fail the run before any work is done */
+export function initActionConfig(): ActionConfig {
+    startupConfig = undefined;
+    startupConfig = loadActionConfig();
+    return startupConfig;
+};
+
+/**
+ * The config of this run, loaded by initActionConfig.
+ *
+ * @throws Error if initActionConfig wasn't called
+ */
+export function actionConfig(): ActionConfig {
+    if (!startupConfig) {
+        throw new Error(`The action config is read before initActionConfig loaded it`);
+    }
+    return startupConfig;
+};
@@ -0,0 +1,168 @@
+import * as core from '@actions/core';
+import * as exec from '@actions/exec';
+import { spawn } from 'child_process';
+
+/** Thrown when an operation exceeds its timeout, ETIMEDOUT makes retryWithBackoff retry it */
+export class TimeoutError extends Error {
+    readonly code = 'ETIMEDOUT';
+
+    constructor(message: string) {
+        super(message);
+        this.name = 'TimeoutError';
+    }
+};
+
+type CleanupTask = () => Promise<void>;
+
+const cancellation = new AbortController();
+const cleanupTasks = new Set<CleanupTask>();
+// Timed out operations that ignored the abort, such as tc.downloadTool, and are still running
+const abandonedOperations = new Set<Promise<unknown>>();
+var handlerInstalled = false;
+
+/** Aborted when the job is cancelled, for operations that can stop early */
+export const cancellationSignal = (): AbortSignal => cancellation.signal;
+
+/** Number of timed out operations still running, their sockets and timers keep the process alive */
+export const abandonedOperationCount = (): number => abandonedOperations.size;
+
+/**
+ * Registers a task that undoes a side effect of the running step, such as a mounted DMG,
+ * in case the job is cancelled before the step undoes it itself.
+ *
+ * @returns () => void - Unregisters the task once the step undid the side effect
+ */
+export function onCancel(task: CleanupTask): () => void {
+    cleanupTasks.add(task);
+    return () => {
+        cleanupTasks.delete(task);
+    };
+};
+
+/**
+ * Aborts the running operations and runs the registered cleanup tasks.
+ * Cleanup failures are only warned about, every task gets its chance.
+ */
+export async function cancel(signal: string) {
+    core.warning(`Received ${signal}, cancelling and cleaning up`);
+    cancellation.abort(new Error(`Cancelled by ${signal}`));
+    const tasks = Array.from(cleanupTasks);
+    cleanupTasks.clear();
+    for (const task of tasks) {
+        await task().catch(reason => {
+            core.warning(`Cleanup after ${signal} failed: ${reason}`);
+        });
+    }
+};
+
+/**
+ * Handles SIGINT and SIGTERM, which the runner sends when the job is cancelled or times out,
+ * by cleaning up before the process exits.
+ */
+export function handleCancellation() {
+    if (handlerInstalled) {
+        return;
+    }
+    handlerInstalled = true;
+    for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+        process.once(signal, () => {
+            cancel(signal).finally(() => {
+                core.setFailed(`The action was cancelled by ${signal}`);
+                process.exit(1);
+            });
+        });
+    }
+};
+
+/**
+ * Runs an operation with a timeout. The signal passed to the operation is aborted when the
+ * timeout expires or the job is cancelled; operations that can't be aborted are abandoned
+ * and counted by abandonedOperationCount until they settle.
+ *
+ * @param timeoutMs - Time limit in milliseconds, undefined for no limit
+ * @param operationName - Human-readable name for the timeout error
+ * @throws TimeoutError if the operation didn't finish within timeoutMs
+ */
+export async function withTimeout<T>(
+    operation: (signal: AbortSignal) => Promise<T>,
+    timeoutMs: number | undefined,
+    operationName: string
+): Promise<T> {
+    if (timeoutMs === undefined) {
+        return await operation(cancellationSignal());
+    }
+    const controller = new AbortController();
+    const abort = () => controller.abort(cancellationSignal().reason);
+    cancellationSignal().addEventListener('abort', abort);
+    let timer: NodeJS.Timeout | undefined;
+    const running = operation(controller.signal);
+    const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => {
+            const error = new TimeoutError(`${operationName} timed out after ${timeoutMs / 1000}s`);
+            // Rejected first, an operation that settles right away on the abort must not win the race
+            reject(error);
+            abandonedOperations.add(running);
+            running.catch(() => undefined).finally(() => abandonedOperations.delete(running));
+            controller.abort(error);
+        }, timeoutMs);
+    });
+    try {
+        return await Promise.race([running, timeout]);
+    } finally {
+        clearTimeout(timer);
+        cancellationSignal().removeEventListener('abort', abort);
+    }
+};
+
+/**
+ * Runs a process like exec.getExecOutput, killing it when the timeout expires or the job is cancelled.
+ * Without a timeout the process runs through @actions/exec.
+ *
+ * @param timeoutMs - Time limit in milliseconds, undefined for no limit
+ * @throws TimeoutError if the process was killed after timeoutMs
+ */
+export async function execWithTimeout(
+    tool: string,
+    args: string[],
+    timeoutMs: number | undefined,
+    options: exec.ExecOptions = {}
+): Promise<exec.ExecOutput> {
+    if (timeoutMs === undefined) {
+        return await exec.getExecOutput(tool, args, options);
+    }
+    return await withTimeout(signal => new Promise<exec.ExecOutput>((resolve, reject) => {
+        if (!options.silent) {
+            core.info(`[command]${tool} ${args.join(' ')}`);
+        }
+        const child = spawn(tool, args, { signal, killSignal: 'SIGTERM', env: options.env, cwd: options.cwd });
+        let stdout = '';
+        let stderr = '';
+        child.stdout.on('data', (data: Buffer) => {
+            stdout += data.toString();
+            if (!options.silent) {
+                process.stdout.write(data);
+            }
+        });
+        child.stderr.on('data', (data: Buffer) => {
+            stderr += data.toString();
+            if (!options.silent) {
+                process.stderr.write(data);
+            }
+        });
+        child.on('error', error => {
+            // Aborting kills the process, the timeout or cancellation rejects with the reason
+            if (!signal.aborted) {
+                reject(error);
+            }
+        });
+        child.on('close', exitCode => {
+            if (signal.aborted) {
+                reject(signal.reason);
+            } else if (exitCode !== 0 && !options.ignoreReturnCode) {
+                reject(new Error(`The process '${tool}' failed with exit code ${exitCode}`));
+            } else {
+                resolve({ exitCode: exitCode ?? 1, stdout, stderr });
+            }
+        });
+    }), timeoutMs, `${tool} ${args[0] || ''}`.trim());
+};
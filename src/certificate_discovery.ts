@@ -0,0 +1,81 @@
+import * as core from '@actions/core';
+
+import { isValidStr } from './utils';
+import { CertificateDetails, getKeypairDetails, parseCertificateDetails } from './smctl_keypair';
+import { actionConfig } from './action_config';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Checks the validity end of the certificate against `certificate-expiry-days`.
+ *
+ * @returns string | undefined - Why the certificate needs attention, undefined when it's valid long enough
+ */
+export function checkExpiry(details: CertificateDetails, days: number, now: Date = new Date()): string | undefined {
+    if (!details.validTo) {
+        return undefined;
+    }
+    const remaining = Math.floor((details.validTo.getTime() - now.getTime()) / DAY_MS);
+    if (details.validTo.getTime() <= now.getTime()) {
+        return `The certificate of ${details.subject || 'the keypair'} expired on ${details.validTo.toISOString()}`;
+    }
+    if (remaining < days) {
+        return `The certificate of ${details.subject || 'the keypair'} expires in ${remaining} day(s), on ${details.validTo.toISOString()}`;
+    }
+    return undefined;
+};
+
+/**
+ * Looks up the certificate of `keypair-alias` and exposes its details as outputs:
+ * certificate-fingerprint, certificate-subject, certificate-issuer, certificate-valid-from,
+ * certificate-valid-to and key-algorithm. Warns when the certificate expires within
+ * `certificate-expiry-days`, or fails with `fail-on-certificate-expiry`.
+ *
+ * @param toolPath - Path of smctl as returned by setupTool(SMCTL)
+ * @returns Promise<CertificateDetails | undefined> - The details, undefined without keypair-alias or when the lookup fails
+ * @throws Error if the certificate expires too soon, or can't be looked up, with fail-on-certificate-expiry
+ */
+export async function discoverCertificate(toolPath?: string): Promise<CertificateDetails | undefined> {
+    const { keypairAlias, certificateExpiryDays: days, failOnCertificateExpiry: failOnExpiry } = actionConfig();
+    if (!isValidStr(keypairAlias)) {
+        return undefined;
+    }
+
+    var details: CertificateDetails;
+    try {
+        details = parseCertificateDetails(await getKeypairDetails(keypairAlias, toolPath));
+    } catch (error) {
+        if (failOnExpiry) {
+            throw new Error(`Unable to check the certificate expiry of keypair ${keypairAlias}: ${(error as Error).message}`);
+        }
+        core.warning(`Unable to look up the certificate of keypair ${keypairAlias}: ${(error as Error).message}`);
+        return undefined;
+    }
+
+    core.setOutput('certificate-fingerprint', details.fingerprint || '');
+    core.setOutput('certificate-subject', details.subject || '');
+    core.setOutput('certificate-issuer', details.issuer || '');
+    core.setOutput('certificate-valid-from', details.validFrom?.toISOString() || '');
+    core.setOutput('certificate-valid-to', details.validTo?.toISOString() || '');
+    core.setOutput('key-algorithm', details.keyAlgorithm || '');
+    core.info(
+        `Keypair ${keypairAlias}: certificate ${details.subject || '<unknown subject>'} issued by ${details.issuer || '<unknown issuer>'}, ` +
+        `valid until ${details.validTo?.toISOString() || '<unknown>'}, fingerprint ${details.fingerprint || '<unknown>'}`
+    );
+
+    if (!details.validTo) {
+        if (failOnExpiry) {
+            throw new Error(`smctl didn't report the certificate validity of keypair ${keypairAlias}`);
+        }
+        core.warning(`smctl didn't report the certificate validity of keypair ${keypairAlias}, skipping the expiry check`);
+        return details;
+    }
+    const problem = checkExpiry(details, days);
+    if (problem) {
+        if (failOnExpiry) {
+            throw new Error(problem);
+        }
+        core.warning(problem);
+    }
+    return details;
+};
@@ -0,0 +1,75 @@
+import { ChecksumAlgorithm } from './utils';
+
+export type ChecksumEntry = {
+    readonly algorithm: ChecksumAlgorithm;
+    readonly digest: string;
+    /** File name the checksum belongs to, undefined for files holding only a digest */
+    readonly fileName?: string;
+};
+
+const algorithmsByDigestLength: Record<number, ChecksumAlgorithm> = {
+    64: "sha256",
+    96: "sha384",
+    128: "sha512",
+};
+
+// sha256sum / shasum: "<digest>  <file>", "<digest> *<file>" in binary mode, or a bare "<digest>"
+const gnuLine = /^([0-9a-fA-F]+)(?:\s+\*?(.+))?$/;
+// shasum --tag / BSD: "SHA256 (<file>) = <digest>"
+const bsdLine = /^SHA-?(256|384|512) \((.+)\) ?= ?([0-9a-fA-F]+)$/i;
+
+function parseLine(line: string): ChecksumEntry {
+    const bsd = bsdLine.exec(line);
+    if (bsd) {
+        const algorithm = `sha${bsd[1]}` as ChecksumAlgorithm;
+        if (algorithmsByDigestLength[bsd[3].length] !== algorithm) {
+            throw new Error(`${bsd[3].length} hex digits don't make a ${algorithm} digest`);
+        }
+        return { algorithm, digest: bsd[3].toLowerCase(), fileName: bsd[2] };
+    }
+    const gnu = gnuLine.exec(line);
+    if (gnu) {
+        const algorithm = algorithmsByDigestLength[gnu[1].length];
+        if (!algorithm) {
+            throw new Error(`${gnu[1].length} hex digits don't make a SHA-256, SHA-384 or SHA-512 digest`);
+        }
+        return { algorithm, digest: gnu[1].toLowerCase(), fileName: gnu[2]?.trim() };
+    }
+    throw new Error(`not a sha256sum or shasum line`);
+}
+
+/**
+ * Parses a `sha256sum`/`shasum` checksum file and picks the entry of a file.
+ * A bare digest is used for the file, entries naming another file never are.
+ *
+ * @param content - Checksum file content, one entry per line
+ * @param fileName - Name of the file to find the checksum of
+ * @returns ChecksumEntry - The checksum of the file
+ * @throws Error if the file is empty, any line is malformed, or no entry belongs to the file
+ */
+export function parseChecksumFile(content: string, fileName: string): ChecksumEntry {
+    const entries = content.split(/\r?\n/)
+        .map(it => it.trim())
+        .filter(it => it.length > 0 && !it.startsWith('#'))
+        .map((line, index) => {
+            try {
+                return parseLine(line);
+            } catch (error) {
+                throw new Error(`Malformed checksum file, line ${index + 1} "${line}": ${(error as Error).message}`);
+            }
+        });
+    if (entries.length === 0) {
+        throw new Error(`Malformed checksum file: no checksums found`);
+    }
+
+    const matching = entries.find(it => it.fileName !== undefined && it.fileName.split(/[\\/]/).pop() === fileName);
+    if (matching) {
+        return matching;
+    }
+    if (entries.length === 1 && entries[0].fileName === undefined) {
+        return entries[0];
+    }
+    throw new Error(
+        `Checksum file has no checksum for ${fileName}, found ${entries.map(it => it.fileName || '<digest only>').join(', ')}`
+    );
+};
@@ -0,0 +1,83 @@
+import * as core from '@actions/core';
+import * as fs from 'fs/promises';
+import path from 'path';
+import tls from 'tls';
+
+import { createSecureTempDir } from './utils';
+import { registerCleanupFile } from './post_cleanup';
+import { actionConfig } from './action_config';
+
+const CERTIFICATE_FILE_NAME = "client-certificate.p12";
+
+/**
+ * Decodes the base64 `client-cert-b64` input. Whitespace is ignored, so secrets
+ * wrapped by `base64` at 76 columns work as well.
+ */
+function decodeCertificate(certificateB64: string): Buffer {
+    const encoded = certificateB64.replace(/\s+/g, '');
+    if (!/^[A-Za-z0-9+/]+={0,2}$/.test(encoded)) {
+        throw new Error(`Invalid client-cert-b64: the value is not base64 encoded`);
+    }
+    return Buffer.from(encoded, 'base64');
+};
+
+/**
+ * Checks that the certificate is a PKCS#12 file that opens with the password.
+ * OpenSSL 3 can't read PKCS#12 files with legacy encryption (e.g. RC2), smctl
+ * still can, so those only log a warning.
+ *
+ * @returns string | undefined - What is wrong with the certificate, undefined when it opens
+ */
+export function validateClientCertificate(certificate: Buffer, password: string): string | undefined {
+    try {
+        tls.createSecureContext({ pfx: certificate, passphrase: password });
+        return undefined;
+    } catch (error) {
+        const message = (error as Error).message;
+        if (/unsupported/i.test(message)) {
+            core.warning(`Could not validate the client certificate: ${message}`);
+            return undefined;
+        }
+        if (/mac verify failure/i.test(message)) {
+            return `doesn't open with the password`;
+        }
+        return `is not a readable PKCS#12 file (${message})`;
+    }
+};
+
+/**
+ * Writes the client certificate of the `client-cert-b64` input to a file only the
+ * runner user can read, exports SM_CLIENT_CERT_FILE (and SM_CLIENT_CERT_PASSWORD from
+ * `client-cert-password`) for smctl and the later steps, and removes it in the post step.
+ *
+ * @returns string | undefined - Path of the certificate file, undefined when the input isn't set
+ * @throws Error if the input isn't a base64 encoded PKCS#12 file that opens with the password
+ */
+export async function setupClientCertificate(): Promise<string | undefined> {
+    const { clientCertB64: certificateB64, clientCertPassword: password } = actionConfig();
+    if (!certificateB64) {
+        return undefined;
+    }
+    // Masking works per line, base64 secrets may be wrapped
+    certificateB64.split(/\r?\n/).map(it => it.trim()).filter(it => it.length > 0).forEach(it => core.setSecret(it));
+    if (password) {
+        core.setSecret(password);
+    }
+
+    const certificate = decodeCertificate(certificateB64);
+    const problem = validateClientCertificate(certificate, password);
+    if (problem) {
+        throw new Error(`Invalid client-cert-b64: the client certificate ${problem}`);
+    }
+
+    const certificatePath = path.join(await createSecureTempDir(), CERTIFICATE_FILE_NAME);
+    registerCleanupFile(certificatePath);
+    await fs.writeFile(certificatePath, certificate, { mode: 0o600, flush: true });
+
+    core.exportVariable('SM_CLIENT_CERT_FILE', certificatePath);
+    if (password) {
+        core.exportVariable('SM_CLIENT_CERT_PASSWORD', password);
+    }
+    core.info(`Client certificate written to ${certificatePath}`);
+    return certificatePath;
+};
@@ -1,47 +1,88 @@
 import * as core from '@actions/core';
 import * as cache from '@actions/cache';
+import path from 'path';
 
-import { setupTool, SCD, SMCTK, SMCTL, SMPKCS11, SMTOOLS } from './tool_setup';
+import { setupTool, SCD, SMCTK, SMCTL, SMPKCS11, SMTOOLS, waitForCacheSaves } from './tool_setup';
 import { simplifiedSign } from './smctl_signing';
+import { verifySignatures } from './signature_verification';
 import { RunnerType, runnerType } from './utils';
+import { writeJobSummary } from './job_summary';
+import { cleanup, isPost, markMainStep } from './post_cleanup';
+import { setupClientCertificate } from './client_certificate';
+import { preflight } from './preflight';
+import { discoverCertificate } from './certificate_discovery';
+import { checkDigestPolicy, checkKeypairPolicy, checkSigningRuleKeypairs } from './signing_policy';
+import { initActionConfig } from './action_config';
+import { abandonedOperationCount, handleCancellation } from './cancellation';
 
 const productName = "'DigiCert Software Trust Manager'";
 
 export async function main() {
+    markMainStep();
+    handleCancellation();
+    const config = initActionConfig();
     core.info(`Platform caching service available: ${cache.isFeatureAvailable()}`);
     core.info(`Runner type: ${runnerType}`);
-    if (runnerType === RunnerType.GITHUB_RUNNER && !core.getBooleanInput('use-github-caching-service')) {
+    if (runnerType === RunnerType.GITHUB_RUNNER && !config.useGithubCachingService) {
         core.info(`ADD "use-github-caching-service: true" in your workflow for an optimized Software Trust Manager setup`);
     }
-    const isSimpleSigning = core.getBooleanInput('simple-signing-mode');
-    if (isSimpleSigning) {
-        core.info(`Setting up ${productName} for simple-signing mode.`);
-        const smctl = await setupTool(SMCTL);
-        await simplifiedSign(smctl);
-    } else {
-        core.info(`Setting up ${productName} for existing third party tool based signing mode.`);
-        switch(core.platform.platform) {
-            case 'win32':
-                await setupTool(SMTOOLS);
-                break;
-            case 'linux':
-                await setupTool(SMTOOLS);
-                break;
-            case 'darwin':
-                // Parallel tool setup for macOS - all 4 tools are independent
-                core.info('Downloading and installing 4 macOS tools in parallel...');
-                await Promise.all([
-                    setupTool(SMCTL),
-                    setupTool(SMCTK),
-                    setupTool(SMPKCS11),
-                    setupTool(SCD)
-                ]);
-                core.info('All macOS tools installed successfully');
-                break;
-        };
+    try {
+        await setupClientCertificate();
+        if (config.simpleSigningMode) {
+            core.info(`Setting up ${productName} for simple-signing mode.`);
+            checkDigestPolicy();
+            const smctl = await setupTool(SMCTL);
+            await preflight(smctl);
+            if (!config.dryRun) {
+                checkKeypairPolicy(await discoverCertificate(smctl));
+                await checkSigningRuleKeypairs(smctl);
+            }
+            const report = await simplifiedSign(smctl);
+            if (report && config.verifyAfterSign) {
+                await verifySignatures(report, smctl);
+            }
+        } else {
+            core.info(`Setting up ${productName} for existing third party tool based signing mode.`);
+            switch(core.platform.platform) {
+                case 'win32':
+                case 'linux':
+                    const smtools = await setupTool(SMTOOLS);
+                    await preflight(smtools && path.join(smtools, SMCTL));
+                    break;
+                case 'darwin':
+                    // Parallel tool setup for macOS - all 4 tools are independent
+                    core.info('Downloading and installing 4 macOS tools in parallel...');
+                    const [smctl] = await Promise.all([
+                        setupTool(SMCTL),
+                        setupTool(SMCTK),
+                        setupTool(SMPKCS11),
+                        setupTool(SCD)
+                    ]);
+                    core.info('All macOS tools installed successfully');
+                    await preflight(smctl);
+                    break;
+            };
+        }
+    } finally {
+        // Also report what was installed and signed when the run fails
+        await writeJobSummary();
     }
 };
 
-main().catch((reason) =>
-    core.setFailed(reason)
-);
\ No newline at end of file
+if (isPost()) {
+    cleanup().catch((reason) =>
+        core.warning(`Cleanup failed: ${reason}`)
+    );
+} else {
+    main().catch((reason) =>
+        core.setFailed(reason)
+    ).finally(async () => {
+        // Downloads abandoned by download-timeout can't be aborted and would keep the step running,
+        // the cache saves must finish before exiting or they are lost
+        if (abandonedOperationCount() > 0) {
+            await waitForCacheSaves();
+            core.info(`Exiting without waiting for ${abandonedOperationCount()} timed out operation(s)`);
+            process.exit();
+        }
+    });
+}
@@ -0,0 +1,160 @@
+import * as core from '@actions/core';
+import * as glob from '@actions/glob';
+import * as fs from 'fs/promises';
+import path from 'path';
+import { walk } from './directory_walk_recursive';
+
+const globOptions: glob.GlobOptions = {
+    followSymbolicLinks: true,
+    implicitDescendants: false,
+    matchDirectories: false,
+};
+
+export const isExcludePattern = (pattern: string): boolean => pattern.startsWith('!');
+
+export const isGlobPattern = (pattern: string): boolean =>
+    isExcludePattern(pattern) || /[*?[]/.test(pattern);
+
+/**
+ * Extensions of the file types signed in simple signing mode: PE files, installers and packages,
+ * PowerShell scripts, JARs, NuGet packages and VSIX extensions. When the action expands a directory
+ * itself, only these files are passed to smctl.
+ */
+export const signableExtensions = [
+    '.exe', '.dll', '.sys', '.ocx', '.scr', '.cpl', '.efi', '.mui',
+    '.msi', '.msm', '.msp', '.msix', '.msixbundle', '.appx', '.appxbundle', '.cab', '.cat',
+    '.ps1', '.psm1', '.psd1', '.jar', '.nupkg', '.vsix',
+];
+
+export const isSignableFile = (file: string): boolean => signableExtensions.includes(path.extname(file).toLowerCase());
+
+/**
+ * Expands a list of paths and glob patterns into a de-duplicated list of paths to sign.
+ *
+ * Plain paths (files or directories) are kept as they are, glob patterns are expanded
+ * to the files they match and patterns starting with '!' exclude files from everything the
+ * other entries match. With exclude patterns, a directory is replaced by the signable files
+ * it contains, so the excludes apply to them. Every path or pattern must match at least one
+ * entry on disk.
+ *
+ * @param patterns - Paths and glob patterns, one per entry (e.g. 'build/app.exe', 'dist/**', '!dist/test-*.dll')
+ * @returns Promise<string[]> - Absolute paths in the order they were first matched
+ * @throws Error listing every path or pattern that matched nothing
+ */
+export async function expandInputPatterns(patterns: string[]): Promise<string[]> {
+    const excludes = patterns.filter(isExcludePattern);
+    const includes = patterns.filter(it => !isExcludePattern(it));
+    if (includes.length === 0) {
+        throw new Error(`input contains only exclude patterns (${excludes.join(', ')}), nothing to sign`);
+    }
+
+    const resolved = new Set<string>();
+    const unmatched: string[] = [];
+    for (const include of includes) {
+        var pattern = include;
+        var directory = false;
+        if (!isGlobPattern(include)) {
+            const stats = await fs.stat(include).catch(() => undefined);
+            if (!stats) {
+                unmatched.push(include);
+                continue;
+            }
+            if (excludes.length === 0) {
+                resolved.add(path.resolve(include));
+                continue;
+            }
+            // A plain path has no glob characters, so it matches itself
+            directory = stats.isDirectory();
+            pattern = directory ? path.join(include, '**') : include;
+        }
+
+        const globber = await glob.create([pattern, ...excludes].join('\n'), globOptions);
+        var matches = await globber.glob();
+        if (directory) {
+            matches = matches.filter(isSignableFile);
+        }
+        core.debug(`Pattern ${pattern} matched ${matches.length} file(s)`);
+        // A plain path that exists matched, even when the excludes remove all of it
+        if (matches.length === 0 && isGlobPattern(include)) {
+            unmatched.push(include);
+        }
+        matches.forEach(it => resolved.add(it));
+    }
+
+    if (unmatched.length > 0) {
+        throw new Error(`The following input paths or patterns matched no files: ${unmatched.join(', ')}`);
+    }
+    return Array.from(resolved);
+}
+
+/**
+ * Resolves the 'input' of simplifiedSign into the paths passed to smctl.
+ * A single plain path is passed through untouched so smctl keeps handling
+ * files and directories exactly as before.
+ */
+export async function resolveSigningInputs(patterns: string[]): Promise<string[]> {
+    if (patterns.length === 1 && !isGlobPattern(patterns[0])) {
+        return patterns;
+    }
+
+    const inputs = await expandInputPatterns(patterns);
+    core.info(`Resolved ${inputs.length} path(s) to sign from ${patterns.length} input entries`);
+    inputs.forEach(it => core.debug(`\t${it}`));
+    return inputs;
+}
+
+/**
+ * Expands the 'input' into the individual files to sign, directories are replaced by
+ * the files they contain. Directories and glob patterns only contribute signable files,
+ * files named explicitly are kept whatever their type. Used wherever the action picks
+ * the files itself: rule based signing, parallel signing and dry runs.
+ *
+ * @returns Promise<string[]> - Absolute file paths in the order they were first matched
+ * @throws Error listing every path or pattern that matched nothing
+ */
+export async function expandInputFiles(patterns: string[]): Promise<string[]> {
+    const named = new Set(patterns.filter(it => !isGlobPattern(it)).map(it => path.resolve(it)));
+    const files = new Set<string>();
+    var skipped = 0;
+    const add = (file: string) => {
+        if (named.has(file) || isSignableFile(file)) {
+            files.add(file);
+        } else {
+            skipped++;
+        }
+    };
+    for (const input of await expandInputPatterns(patterns)) {
+        const stats = await fs.stat(input);
+        if (stats.isDirectory()) {
+            (await walk(input)).filter(it => it.startsWith('[F]')).forEach(it => add(it.substring(3)));
+        } else {
+            add(input);
+        }
+    }
+    if (skipped > 0) {
+        core.info(`Skipping ${skipped} file(s) that are not of a signable type (${signableExtensions.join(', ')})`);
+    }
+    return Array.from(files);
+}
+
+/**
+ * Replaces the directories among paths that are already resolved by the signable files they
+ * contain, other paths are kept as they are. The paths are never read as glob patterns, so
+ * file names with '[', '*' or '?' stay literal.
+ *
+ * @returns Promise<string[]> - Absolute file paths, de-duplicated
+ */
+export async function expandDirectories(paths: string[]): Promise<string[]> {
+    const files = new Set<string>();
+    for (const input of paths) {
+        const stats = await fs.stat(input).catch(() => undefined);
+        if (stats?.isDirectory()) {
+            (await walk(path.resolve(input)))
+                .filter(it => it.startsWith('[F]') && isSignableFile(it))
+                .forEach(it => files.add(it.substring(3)));
+        } else {
+            files.add(path.resolve(input));
+        }
+    }
+    return Array.from(files);
+}
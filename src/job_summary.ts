@@ -0,0 +1,88 @@
+import * as core from '@actions/core';
+import { SigningReport, SigningStatus } from './signing_report';
+
+export type ToolSetupSummary = {
+    readonly name: string;
+    readonly platformKey: string;
+    readonly cacheHit: boolean;
+    readonly checksum?: string;
+    /** Mirror the tool was downloaded from, undefined for cache hits */
+    readonly source?: string;
+    readonly path: string;
+};
+
+const toolSetups: ToolSetupSummary[] = [];
+var signingReport: SigningReport | undefined;
+
+/** core.summary writes table cells as raw HTML, so escape file paths and error messages */
+const escapeHtml = (value: string): string =>
+    value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const header = (data: string) => ({ data, header: true });
+
+export function recordToolSetup(tool: ToolSetupSummary) {
+    toolSetups.push(tool);
+};
+
+export function recordSigningReport(report: SigningReport) {
+    signingReport = report;
+};
+
+/** Clears everything recorded so far, used between runs in tests */
+export function resetJobSummary() {
+    toolSetups.length = 0;
+    signingReport = undefined;
+};
+
+/**
+ * Writes the tools installed by setupTool and the signing results of this run to the GitHub job summary.
+ * Failing to write the summary never fails the action.
+ */
+export async function writeJobSummary() {
+    if (toolSetups.length === 0 && !signingReport) {
+        return;
+    }
+
+    const summary = core.summary.addHeading('DigiCert Software Trust Manager', 2);
+    if (toolSetups.length > 0) {
+        summary.addHeading('Tools', 3).addTable([
+            [header('Tool'), header('Platform'), header('Cache'), header('Source'), header('Checksum'), header('Path')],
+            ...toolSetups.map(it => [
+                escapeHtml(it.name),
+                escapeHtml(it.platformKey),
+                it.cacheHit ? 'hit' : 'miss',
+                it.source ? escapeHtml(it.source) : 'n/a',
+                it.checksum ? `<code>${escapeHtml(it.checksum)}</code>` : 'n/a',
+                `<code>${escapeHtml(it.path)}</code>`,
+            ]),
+        ]);
+    }
+
+    if (signingReport) {
+        const report = signingReport;
+        const statusIcons: Record<SigningStatus, string> = {
+            [SigningStatus.SIGNED]: "✅",
+            [SigningStatus.SKIPPED]: "⏭️",
+            [SigningStatus.FAILED]: "❌",
+            [SigningStatus.UNKNOWN]: "❔",
+        };
+        const keypairs = new Set(report.files.map(it => it.keypairAlias || report.keypairAlias));
+        summary.addHeading('Signed files', 3)
+            .addRaw(`Keypair ${Array.from(keypairs.size > 0 ? keypairs : [report.keypairAlias]).map(it => `<code>${escapeHtml(it)}</code>`).join(', ')}: ` +
+                `${report.signedCount} signed, ${report.skippedCount} skipped, ${report.failedCount} failed`, true)
+            .addTable([
+                [header('File'), header('Status'), header('Digest'), header('Timestamped'), header('Error')],
+                ...report.files.map(it => [
+                    `<code>${escapeHtml(it.path)}</code>`,
+                    `${statusIcons[it.status]} ${it.status}${it.attempts ? ` (attempt ${it.attempts})` : ''}`,
+                    escapeHtml(it.digestAlgorithm),
+                    it.timestamped ? 'yes' : 'no',
+                    escapeHtml(it.error || ''),
+                ]),
+            ]);
+    }
+
+    await summary.write().catch(reason => {
+        core.warning(`Failed to write the job summary: ${reason}`);
+    });
+};
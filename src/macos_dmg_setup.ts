@@ -2,30 +2,39 @@ import * as exec from '@actions/exec';
 import * as core from '@actions/core';
 import * as path from 'path';
 import { archiveExtractCallback, randomDirName, rmDir, tmpDir } from './utils';
+import { onCancel } from './cancellation';
+
+async function detach(volume: string) {
+    core.info(`Unmounting DMG volume ${volume}`);
+    await exec.getExecOutput("hdiutil", ["detach", volume], {
+        ignoreReturnCode: true // Don't fail if unmount has issues
+    });
+}
 
 export async function extractDmg(dmgFile: string, callback: archiveExtractCallback) {
     const volume = path.join('/Volumes', randomDirName());
     core.info(`Mounting DMG file ${dmgFile} to volume ${volume}`)
     
     let mounted = false;
+    let unregister = () => {};
     try {
         await exec.getExecOutput(
             "hdiutil", 
             ["attach", dmgFile, "-mountpoint", volume]
         );
         mounted = true;
+        // A cancelled job doesn't reach the finally block, the volume would stay mounted on the runner
+        unregister = onCancel(async () => await detach(volume));
 
         await callback(volume);
 
         return volume;
     } finally {
         // Always attempt to unmount, even if callback fails
+        unregister();
         if (mounted) {
             try {
-                core.info(`Unmounting DMG volume ${volume}`);
-                await exec.getExecOutput("hdiutil", ["detach", volume], {
-                    ignoreReturnCode: true // Don't fail if unmount has issues
-                });
+                await detach(volume);
             } catch (err) {
                 // Log warning but don't fail - volume might already be unmounted
                 core.warning(`Failed to unmount DMG volume ${volume}: ${err}`);
@@ -0,0 +1,114 @@
+import * as core from '@actions/core';
+import * as fs from 'fs';
+import tls from 'tls';
+
+import { redactUrl } from './utils';
+import { actionConfig } from './action_config';
+
+const connectionErrorCodes = ['ECONNREFUSED', 'ECONNRESET', 'ENOTFOUND', 'EAI_AGAIN', 'ETIMEDOUT', 'EHOSTUNREACH'];
+const certificateErrorCodes = [
+    'SELF_SIGNED_CERT_IN_CHAIN',
+    'DEPTH_ZERO_SELF_SIGNED_CERT',
+    'UNABLE_TO_GET_ISSUER_CERT',
+    'UNABLE_TO_GET_ISSUER_CERT_LOCALLY',
+    'UNABLE_TO_VERIFY_LEAF_SIGNATURE',
+    'CERT_UNTRUSTED',
+];
+
+const createSecureContext = tls.createSecureContext;
+var configuredInputs: string | undefined;
+
+/** The proxy http-client uses for a download, honouring no_proxy the same way */
+export function proxyFor(url: string): string | undefined {
+    const proxy = process.env['https_proxy'] || process.env['HTTPS_PROXY'];
+    if (!proxy) {
+        return undefined;
+    }
+    const host = new URL(url).hostname.toLowerCase();
+    const bypassed = (process.env['no_proxy'] || process.env['NO_PROXY'] || '')
+        .split(',')
+        .map(it => it.trim().toLowerCase().replace(/^\*?\./, '').replace(/:\d+$/, ''))
+        .filter(it => it.length > 0)
+        .some(it => it === '*' || host === it || host.endsWith(`.${it}`));
+    return bypassed ? undefined : proxy;
+};
+
+/**
+ * Adds the certificates of a PEM bundle to the trusted roots of every TLS connection
+ * made by this process. Node.js only reads NODE_EXTRA_CA_CERTS at startup and
+ * tc.downloadTool doesn't accept CA options, so the default secure context is extended instead.
+ */
+function trustCaBundle(caBundlePath: string) {
+    const pem = fs.readFileSync(caBundlePath, { encoding: 'utf-8' });
+    if (!pem.includes('-----BEGIN CERTIFICATE-----')) {
+        throw new Error(`ca-bundle ${caBundlePath} doesn't contain any PEM encoded certificates`);
+    }
+    const ca = [...tls.rootCertificates, pem];
+    tls.createSecureContext = (options?: tls.SecureContextOptions) =>
+        createSecureContext(options?.ca ? options : { ...options, ca });
+};
+
+/**
+ * Applies the proxy-url, no-proxy and ca-bundle inputs to tool downloads. The proxy is
+ * handed to http-client through the standard https_proxy and no_proxy variables of this
+ * process; proxies configured on the runner are kept when the inputs are empty.
+ */
+export function configureNetwork() {
+    const { proxyUrl, noProxy, caBundle } = actionConfig();
+    const inputs = JSON.stringify([proxyUrl, noProxy, caBundle]);
+    if (inputs === configuredInputs) {
+        return;
+    }
+
+    if (proxyUrl) {
+        const password = new URL(proxyUrl).password;
+        if (password) {
+            core.setSecret(decodeURIComponent(password));
+        }
+        process.env['https_proxy'] = process.env['HTTPS_PROXY'] = proxyUrl;
+    }
+    if (noProxy) {
+        process.env['no_proxy'] = process.env['NO_PROXY'] = noProxy;
+    }
+
+    tls.createSecureContext = createSecureContext;
+    if (caBundle) {
+        trustCaBundle(caBundle);
+        core.info(`Trusting the additional CA certificates in ${caBundle} for tool downloads`);
+    }
+
+    const proxy = process.env['https_proxy'] || process.env['HTTPS_PROXY'];
+    if (proxy) {
+        const bypass = process.env['no_proxy'] || process.env['NO_PROXY'];
+        core.info(`Using proxy ${redactUrl(proxy)} for tool downloads${bypass ? `, except for ${bypass}` : ''}`);
+    }
+    configuredInputs = inputs;
+};
+
+/**
+ * Explains a failed download, telling apart failures of the proxy, of TLS
+ * verification and of the CDN itself.
+ *
+ * @returns string - Diagnostic message including the original reason
+ */
+export function describeDownloadFailure(url: string, reason: unknown): string {
+    const error = reason as { message?: string, code?: string, httpStatusCode?: number };
+    const message = error?.message || String(reason);
+    const proxy = proxyFor(url);
+
+    if (proxy && (error?.httpStatusCode === 407 || /statusCode=407/.test(message))) {
+        return `Proxy ${redactUrl(proxy)} rejected the credentials (HTTP 407) while downloading ${url}: ${message}`;
+    }
+    if (proxy && (/tunneling socket/i.test(message) || connectionErrorCodes.includes(error?.code || ''))) {
+        return `Could not connect through proxy ${redactUrl(proxy)} while downloading ${url}. ` +
+            `Check proxy-url and no-proxy: ${message}`;
+    }
+    if (certificateErrorCodes.includes(error?.code || '') || /certificate/i.test(message)) {
+        return `TLS certificate verification failed while downloading ${url}. ` +
+            `If a proxy intercepts TLS traffic, provide its CA certificate through ca-bundle: ${message}`;
+    }
+    if (error?.httpStatusCode) {
+        return `CDN responded with HTTP ${error.httpStatusCode} for ${url}: ${message}`;
+    }
+    return `Failed to download ${url}${proxy ? ` through proxy ${redactUrl(proxy)}` : ''}: ${message}`;
+};
@@ -0,0 +1,142 @@
+import * as core from '@actions/core';
+import * as exec from '@actions/exec';
+import * as fs from 'fs/promises';
+import path from 'path';
+
+import { tmpDir } from './utils';
+import { uninstallExistingMsi } from './windows_msi_setup';
+
+const IS_POST = "isPost";
+const CLEANUP_FILES = "cleanupFiles";
+const WINDOWS_LIBRARIES = "windowsLibraries";
+const WINDOWS_MSI = "windowsMsi";
+
+/** Directories created by randomTmpDir and createSecureTempDir: a known prefix followed by a UUID */
+const tempDirPattern = /^(D_|digicert-|csp-setup-|tools-source-|signing-report-)[0-9a-f]{8}(-[0-9a-f]{4}){3}-[0-9a-f]{12}$/i;
+
+const cspProviderKeys = [
+    "HKEY_LOCAL_MACHINE\\SOFTWARE\\WOW6432Node\\Microsoft\\Cryptography\\Defaults\\Provider\\DigiCert Software Trust Manager CSP",
+    "HKEY_LOCAL_MACHINE\\SOFTWARE\\Microsoft\\Cryptography\\Defaults\\Provider\\DigiCert Software Trust Manager CSP",
+    "HKEY_LOCAL_MACHINE\\SOFTWARE\\WOW6432Node\\Microsoft\\Cryptography\\Defaults\\Provider\\DigiCert Secure Software Manager CSP",
+    "HKEY_LOCAL_MACHINE\\SOFTWARE\\Microsoft\\Cryptography\\Defaults\\Provider\\DigiCert Secure Software Manager CSP",
+];
+
+type WindowsLibraries = {
+    readonly smctl: string;
+    readonly libraries: string[];
+};
+
+const cleanupFiles: string[] = [];
+
+/** Whether this run is the post step, main marks the run with the IS_POST state */
+export const isPost = (): boolean => !!core.getState(IS_POST);
+
+/** Marks the main step, so the post step runs cleanup instead */
+export function markMainStep() {
+    core.saveState(IS_POST, 'true');
+};
+
+/** Registers a file with signing material (e.g. a decoded client certificate) to delete in the post step */
+export function registerCleanupFile(filePath: string) {
+    if (!cleanupFiles.includes(filePath)) {
+        cleanupFiles.push(filePath);
+        core.saveState(CLEANUP_FILES, JSON.stringify(cleanupFiles));
+    }
+};
+
+/** Registers the KSP/CSP registration of setupLibraries and the DLLs it copied, to undo in the post step */
+export function registerWindowsLibraries(smctl: string, libraries: string[]) {
+    const state: WindowsLibraries = { smctl, libraries };
+    core.saveState(WINDOWS_LIBRARIES, JSON.stringify(state));
+};
+
+/** Registers the MSI installed by the main step, to uninstall in the post step */
+export function registerMsiInstall(msiPath: string) {
+    core.saveState(WINDOWS_MSI, JSON.stringify(msiPath));
+};
+
+function readState<T>(name: string): T | undefined {
+    const value = core.getState(name);
+    if (!value) {
+        return undefined;
+    }
+    try {
+        return JSON.parse(value) as T;
+    } catch (error) {
+        core.warning(`Ignoring invalid ${name} state: ${error}`);
+        return undefined;
+    }
+};
+
+async function removeFile(filePath: string) {
+    await fs.rm(filePath, { force: true }).then(() => {
+        core.info(`Removed ${filePath}`);
+    }).catch(reason => {
+        core.warning(`Failed to remove ${filePath}. Reason: ${reason}`);
+    });
+};
+
+async function unregisterWindowsLibraries(state: WindowsLibraries) {
+    core.info(`Unregistering KSP and CSP from the system`);
+    await exec.getExecOutput(state.smctl, ["windows", "ksp", "unregister"], { ignoreReturnCode: true }).then(rv => {
+        if (rv.exitCode !== 0) {
+            core.warning(`Failed to unregister the KSP, exit code ${rv.exitCode}: ${rv.stderr || rv.stdout}`);
+        }
+    }).catch(reason => {
+        core.warning(`Failed to unregister the KSP. Reason: ${reason}`);
+    });
+
+    for (const key of cspProviderKeys) {
+        await exec.getExecOutput('reg', ['delete', key, '/f'], { ignoreReturnCode: true, silent: true }).then(rv => {
+            if (rv.exitCode !== 0) {
+                core.debug(`Registry key ${key} not removed: ${rv.stderr}`);
+            }
+        }).catch(reason => {
+            core.warning(`Failed to remove registry key ${key}. Reason: ${reason}`);
+        });
+    }
+
+    for (const library of state.libraries) {
+        await removeFile(library);
+    }
+};
+
+async function removeTempDirs() {
+    const entries = await fs.readdir(tmpDir).catch(reason => {
+        core.debug(`Failed to list ${tmpDir}: ${reason}`);
+        return [] as string[];
+    });
+    const tempDirs = entries.filter(it => tempDirPattern.test(it));
+    for (const entry of tempDirs) {
+        await fs.rm(path.join(tmpDir, entry), { recursive: true, force: true }).catch(reason => {
+            core.warning(`Failed to remove ${entry}. Reason: ${reason}`);
+        });
+    }
+    core.info(`Removed ${tempDirs.length} temporary directories from ${tmpDir}`);
+};
+
+/**
+ * Post step: removes the signing material, KSP/CSP registration, system DLLs, the installed
+ * smtools MSI and temporary directories left by the main step. Runs when the job fails too and never
+ * fails the job itself.
+ */
+export async function cleanup() {
+    core.info(`Cleaning up after DigiCert Software Trust Manager`);
+
+    for (const file of readState<string[]>(CLEANUP_FILES) || []) {
+        await removeFile(file);
+    }
+
+    const windowsLibraries = readState<WindowsLibraries>(WINDOWS_LIBRARIES);
+    if (windowsLibraries) {
+        await unregisterWindowsLibraries(windowsLibraries);
+    }
+
+    // The MSI lies in a temporary directory, uninstall it before those are removed
+    const msiPath = readState<string>(WINDOWS_MSI);
+    if (msiPath) {
+        await uninstallExistingMsi(msiPath);
+    }
+
+    await removeTempDirs();
+};
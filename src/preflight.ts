@@ -0,0 +1,144 @@
+import * as core from '@actions/core';
+import * as fs from 'fs/promises';
+
+import { SMCTL } from './tool_setup';
+import { isValidStr } from './utils';
+import { getKeypairDetails } from './smctl_keypair';
+import { validateClientCertificate } from './client_certificate';
+import { actionConfig } from './action_config';
+import { execWithTimeout } from './cancellation';
+
+type Diagnosis = {
+    readonly pattern: RegExp;
+    readonly problem: string;
+};
+
+// Checked in order, a TLS failure caused by the client certificate must not be blamed on SM_HOST
+const diagnoses: Diagnosis[] = [
+    {
+        pattern: /no such host|ENOTFOUND|could not resolve|connection refused|ECONNREFUSED|network is unreachable|i\/o timeout|timed out|dial tcp/i,
+        problem: "SM_HOST can't be reached, check the URL and the runner's network access",
+    },
+    {
+        pattern: /client cert|certificate|pkcs ?#?12|\.p12|mac verify|handshake|bad decrypt/i,
+        problem: "the client certificate was rejected, check SM_CLIENT_CERT_FILE and SM_CLIENT_CERT_PASSWORD",
+    },
+    {
+        pattern: /api[ _-]?key|unauthori[sz]ed|\b401\b|forbidden|\b403\b/i,
+        problem: "SM_API_KEY was rejected, check that the key is valid and belongs to the service user of the client certificate",
+    },
+];
+
+/** Names the credential an smctl failure points at, undefined when the output matches none */
+export function diagnoseSmctlFailure(output: string): string | undefined {
+    return diagnoses.find(it => it.pattern.test(output))?.problem;
+};
+
+/**
+ * Checks that the environment variables smctl needs are set and well-formed.
+ *
+ * @param env - Environment to check, process.env by default
+ * @returns Promise<string[]> - One message per problem found, empty when all look right
+ */
+export async function checkEnvironment(env: NodeJS.ProcessEnv = process.env): Promise<string[]> {
+    const problems: string[] = [];
+
+    const host = env['SM_HOST'] || '';
+    if (!isValidStr(host)) {
+        problems.push(`SM_HOST is not set`);
+    } else {
+        try {
+            if (new URL(host.trim()).protocol !== 'https:') {
+                problems.push(`SM_HOST must be an https:// URL, got ${host}`);
+            }
+        } catch {
+            problems.push(`SM_HOST is not a valid URL: ${host}`);
+        }
+    }
+
+    const apiKey = env['SM_API_KEY'] || '';
+    if (!isValidStr(apiKey)) {
+        problems.push(`SM_API_KEY is not set`);
+    } else if (/\s/.test(apiKey)) {
+        problems.push(`SM_API_KEY contains whitespace, check the secret for a trailing newline`);
+    }
+
+    const certificateFile = env['SM_CLIENT_CERT_FILE'] || '';
+    const password = env['SM_CLIENT_CERT_PASSWORD'] || '';
+    if (!isValidStr(password)) {
+        problems.push(`SM_CLIENT_CERT_PASSWORD is not set`);
+    }
+    if (!isValidStr(certificateFile)) {
+        problems.push(`SM_CLIENT_CERT_FILE is not set, set it or the client-cert-b64 input`);
+    } else {
+        const certificate = await fs.readFile(certificateFile).catch(reason => {
+            problems.push(`SM_CLIENT_CERT_FILE ${certificateFile} can't be read: ${reason}`);
+            return undefined;
+        });
+        if (certificate && isValidStr(password)) {
+            const problem = validateClientCertificate(certificate, password);
+            if (problem) {
+                problems.push(`SM_CLIENT_CERT_FILE ${certificateFile} ${problem}`);
+            }
+        }
+    }
+    return problems;
+};
+
+async function healthCheck(tool: string): Promise<string | undefined> {
+    const rv = await execWithTimeout(tool, ["healthcheck"], actionConfig().signTimeoutMs, { ignoreReturnCode: true, silent: true });
+    if (rv.exitCode === 0) {
+        return undefined;
+    }
+    const output = `${rv.stderr}\n${rv.stdout}`.trim();
+    return `${diagnoseSmctlFailure(output) || 'smctl healthcheck failed'} (exit code ${rv.exitCode}): ${output}`;
+};
+
+async function keypairCheck(tool: string, keypairAlias: string): Promise<string | undefined> {
+    return await getKeypairDetails(keypairAlias, tool).then(() => undefined).catch(reason => {
+        const message = `${(reason as Error).message || reason}`;
+        const problem = /not found|does not exist|no such keypair|\b404\b/i.test(message)
+            ? `keypair-alias ${keypairAlias} was not found or the service user can't access it`
+            : diagnoseSmctlFailure(message) || `the lookup of keypair-alias ${keypairAlias} failed`;
+        return `${problem}: ${message}`;
+    });
+};
+
+/**
+ * Preflight mode: checks the credentials before anything is signed, so a wrong
+ * SM_HOST, SM_API_KEY or client certificate fails the job up front and names the
+ * culprit. Checks the environment, runs `smctl healthcheck`, and looks up
+ * `keypair-alias` when it's set. In dry-run mode, only the environment is checked
+ * and problems are warnings.
+ *
+ * @param toolPath - Path of smctl as returned by setupTool(SMCTL)
+ * @throws Error listing every problem found
+ */
+export async function preflight(toolPath?: string) {
+    const config = actionConfig();
+    if (config.dryRun) {
+        // Pull requests from forks have no secrets, report what signing would trip over
+        for (const problem of await checkEnvironment()) {
+            core.warning(`Dry run: ${problem}, signing would fail`);
+        }
+        return;
+    }
+    if (!config.preflight) {
+        return;
+    }
+    core.info(`Running preflight checks`);
+    const problems = await checkEnvironment();
+    if (problems.length === 0) {
+        const tool = toolPath || SMCTL;
+        const keypairAlias = config.keypairAlias;
+        const smctlProblem = await healthCheck(tool)
+            || (isValidStr(keypairAlias) ? await keypairCheck(tool, keypairAlias) : undefined);
+        if (smctlProblem) {
+            problems.push(smctlProblem);
+        }
+    }
+    if (problems.length > 0) {
+        throw new Error(`Preflight check failed:\n  - ${problems.join('\n  - ')}`);
+    }
+    core.info(`Preflight checks passed`);
+};
@@ -0,0 +1,111 @@
+import * as core from '@actions/core';
+import * as fs from 'fs/promises';
+import { expandDirectories } from './input_patterns';
+import { SMCTL } from './tool_setup';
+import { SignedFileResult, SigningReport, SigningStatus } from './signing_report';
+import { findFingerprint, getKeypairDetails, parseKeyValueOutput } from './smctl_keypair';
+import { actionConfig } from './action_config';
+import { execWithTimeout } from './cancellation';
+
+export type VerificationResult = {
+    readonly path: string;
+    readonly valid: boolean;
+    readonly fingerprint?: string;
+    readonly error?: string;
+};
+
+/**
+ * Verifies the signature of a single file with `smctl sign verify` and checks
+ * that it was produced by the certificate with the expected fingerprint.
+ */
+export async function verifyFile(filePath: string, expectedFingerprint: string, toolPath?: string): Promise<VerificationResult> {
+    const tool = toolPath || SMCTL;
+    const rv = await execWithTimeout(tool, ["sign", "verify", "--input", filePath], actionConfig().signTimeoutMs, { ignoreReturnCode: true });
+    if (rv.exitCode !== 0) {
+        const reason = rv.stderr.trim() || rv.stdout.trim() || `exit code ${rv.exitCode}`;
+        return { path: filePath, valid: false, error: `Signature is missing or invalid: ${reason}` };
+    }
+
+    const fingerprint = findFingerprint(parseKeyValueOutput(rv.stdout));
+    if (!fingerprint) {
+        return { path: filePath, valid: false, error: `Signer certificate fingerprint not reported by smctl` };
+    }
+    if (fingerprint !== expectedFingerprint) {
+        return {
+            path: filePath,
+            valid: false,
+            fingerprint,
+            error: `Signed with certificate ${fingerprint}, expected ${expectedFingerprint}`,
+        };
+    }
+    return { path: filePath, valid: true, fingerprint };
+}
+
+/**
+ * Replaces the report entries that name a directory, which smctl reports per input when it
+ * prints no per-file results, by the signable files they contain.
+ */
+async function expandReportEntries(entries: SignedFileResult[]): Promise<SignedFileResult[]> {
+    const files: SignedFileResult[] = [];
+    for (const entry of entries) {
+        // Report paths are literal, a file named like a glob pattern must not be matched as one
+        const stats = await fs.stat(entry.path).catch(() => undefined);
+        if (!stats?.isDirectory()) {
+            files.push(entry);
+            continue;
+        }
+        const expanded = await expandDirectories([entry.path]);
+        core.debug(`${entry.path} expanded to ${expanded.length} file(s) to verify`);
+        files.push(...expanded.map(it => ({ ...entry, path: it })));
+    }
+    return files;
+}
+
+/**
+ * Re-checks every file of the signing report that was not skipped.
+ * Files that failed to sign are verified as well, so signing failures hidden by
+ * zero-exit-code-on-failure are still caught. Directories in the report are
+ * verified file by file.
+ *
+ * @param report - Report returned by simplifiedSign
+ * @param toolPath - Path of smctl as returned by setupTool(SMCTL)
+ * @returns Promise<VerificationResult[]> - One result per verified file
+ * @throws Error listing every file whose signature is missing, invalid or from another certificate
+ */
+export async function verifySignatures(report: SigningReport, toolPath?: string): Promise<VerificationResult[]> {
+    const files = await expandReportEntries(report.files.filter(it => it.status !== SigningStatus.SKIPPED));
+    // Files signed by signing rules name their own keypair
+    const keypairOf = (file: SignedFileResult) => file.keypairAlias || report.keypairAlias;
+    const keypairs = Array.from(new Set(files.map(keypairOf)));
+    core.info(`Verifying signatures of ${files.length} file(s) against keypair ${keypairs.join(', ') || report.keypairAlias}`);
+
+    const expectedFingerprints = new Map<string, string>();
+    for (const keypair of keypairs) {
+        const expectedFingerprint = findFingerprint(await getKeypairDetails(keypair, toolPath));
+        if (!expectedFingerprint) {
+            throw new Error(`Unable to determine the certificate fingerprint of keypair ${keypair}`);
+        }
+        expectedFingerprints.set(keypair, expectedFingerprint);
+    }
+
+    const results: VerificationResult[] = [];
+    for (const file of files) {
+        const result = await verifyFile(file.path, expectedFingerprints.get(keypairOf(file))!, toolPath);
+        if (result.valid) {
+            core.info(`✓ ${file.path}`);
+        } else {
+            core.error(`✗ ${file.path}: ${result.error}`);
+        }
+        results.push(result);
+    }
+
+    const invalid = results.filter(it => !it.valid);
+    if (invalid.length > 0) {
+        throw new Error(
+            `Signature verification failed for ${invalid.length} of ${results.length} file(s):\n` +
+            invalid.map(it => `  ${it.path}: ${it.error}`).join('\n')
+        );
+    }
+    core.info(`✓ Signature verification passed for ${results.length} file(s)`);
+    return results;
+}
@@ -0,0 +1,196 @@
+import * as core from '@actions/core';
+import * as fs from 'fs';
+import path from 'path';
+import Ajv, { ErrorObject, ValidateFunction } from 'ajv';
+import { Document, LineCounter, Node, isMap, isPair, isScalar, parseDocument } from 'yaml';
+
+export const DEFAULT_CONFIG_FILE = ".digicert/signing.yml";
+
+// Published next to action.yml, see the $id of the schema
+const SCHEMA_FILE = path.join(__dirname, '..', 'schemas', 'signing-config.schema.json');
+
+/** A signing rule as the rule definition of the schema allows it */
+type SigningRuleData = {
+    readonly files: string | string[];
+    readonly 'keypair-alias'?: string;
+    readonly 'digest-alg'?: string;
+    readonly timestamp?: boolean;
+    readonly unsigned?: boolean;
+};
+
+/** The content of a file that passed schemas/signing-config.schema.json */
+type SigningConfigData = {
+    readonly version: 1;
+    readonly 'keypair-alias'?: string;
+    readonly input?: string | string[];
+    readonly 'digest-alg'?: string;
+    readonly timestamp?: boolean;
+    readonly unsigned?: boolean;
+    readonly 'fail-fast'?: boolean;
+    readonly 'bulk-sign-mode'?: boolean;
+    readonly 'verify-after-sign'?: boolean;
+    readonly concurrency?: number;
+    readonly 'sign-retries'?: number;
+    readonly rules?: SigningRuleData[];
+};
+
+/** Inputs the configuration file can set, inputs given to the action take precedence */
+const configurableInputs: Exclude<keyof SigningConfigData, 'version' | 'rules'>[] = [
+    "keypair-alias", "input", "digest-alg", "timestamp", "unsigned", "fail-fast", "bulk-sign-mode", "verify-after-sign", "concurrency",
+    "sign-retries",
+];
+
+/** Signing options for the files matched by extension or glob pattern */
+export type SigningRule = {
+    /** Extensions such as .jar, or glob patterns such as **\/*.exe */
+    readonly files: string[];
+    readonly keypairAlias?: string;
+    readonly digestAlg?: string;
+    readonly timestamp?: boolean;
+    readonly unsigned?: boolean;
+};
+
+export type SigningConfigFile = {
+    readonly path: string;
+    /** Values keyed by input name, in the form action inputs take (multi-line lists, 'true'/'false') */
+    readonly inputs: Record<string, string>;
+    readonly rules: SigningRule[];
+};
+
+type Problem = {
+    readonly line: number;
+    readonly column: number;
+    readonly message: string;
+};
+
+var validateSchema: ValidateFunction | undefined;
+
+function schemaValidator(): ValidateFunction {
+    if (!validateSchema) {
+        const schema = JSON.parse(fs.readFileSync(SCHEMA_FILE, { encoding: 'utf-8' }));
+        validateSchema = new Ajv({ allErrors: true, allowUnionTypes: true, verbose: true }).compile(schema);
+    }
+    return validateSchema;
+};
+
+function asList(value: string | string[]): string[] {
+    return Array.isArray(value) ? value : [value];
+};
+
+/** Describes a schema violation in terms of the keys of the file, e.g. rules[1].digest-alg */
+function describeSchemaError(error: ErrorObject, segments: (string | number)[]): string {
+    const name = segments.map((it, i) => typeof it === 'number' ? `[${it}]` : (i > 0 ? `.${it}` : it)).join('');
+    const subject = name || 'the configuration';
+    switch (error.keyword) {
+        case 'additionalProperties':
+            return `${name ? `${name}: ` : ''}unknown key ${error.params.additionalProperty}`;
+        case 'required':
+            return `${subject} is missing the required key ${error.params.missingProperty}`;
+        case 'type':
+            return `${subject} must be ${asList(error.params.type).join(' or ')}`;
+        case 'const':
+            return `${subject} must be ${JSON.stringify(error.params.allowedValue)}`;
+        case 'pattern':
+            return `${subject} ${JSON.stringify(error.data)} is not ${error.parentSchema?.description}`;
+        default:
+            return `${subject} ${error.message}`;
+    }
+};
+
+/** Finds the YAML node a schema violation refers to, the key itself for unknown keys */
+function locateSchemaError(doc: Document, error: ErrorObject, segments: (string | number)[]): Node | undefined {
+    const node = segments.length > 0 ? doc.getIn(segments, true) as Node : doc.contents as Node;
+    if (error.keyword === 'additionalProperties' && isMap(node)) {
+        const pair = node.items.find(it => isScalar(it.key) && it.key.value === error.params.additionalProperty);
+        if (isPair(pair)) {
+            return pair.key as Node;
+        }
+    }
+    return node || undefined;
+};
+
+/**
+ * Parses a signing configuration and validates it against schemas/signing-config.schema.json.
+ *
+ * @param content - The YAML content of the file
+ * @param fileName - Name of the file in the error messages
+ * @returns SigningConfigFile - The values of the file
+ * @throws Error listing every syntax error and schema violation with its line and column
+ */
+export function parseSigningConfig(content: string, fileName: string): SigningConfigFile {
+    const lineCounter = new LineCounter();
+    const doc = parseDocument(content, { lineCounter, prettyErrors: false });
+    const at = (offset: number | undefined) => offset === undefined ? { line: 1, col: 1 } : lineCounter.linePos(offset);
+
+    const problems: Problem[] = [];
+    for (const error of doc.errors) {
+        const { line, col } = at(error.pos[0]);
+        problems.push({ line, column: col, message: error.message });
+    }
+    const data = problems.length === 0 ? doc.toJS() : undefined;
+    const validate = schemaValidator();
+    if (problems.length === 0 && !validate(data)) {
+        for (const error of validate.errors || []) {
+            const segments = error.instancePath.split('/').slice(1)
+                .map(it => it.replace(/~1/g, '/').replace(/~0/g, '~'))
+                .map(it => /^\d+$/.test(it) ? Number(it) : it);
+            const { line, col } = at(locateSchemaError(doc, error, segments)?.range?.[0]);
+            problems.push({ line, column: col, message: describeSchemaError(error, segments) });
+        }
+    }
+
+    if (problems.length > 0) {
+        problems.sort((a, b) => a.line - b.line || a.column - b.column);
+        for (const problem of problems) {
+            core.error(problem.message, {
+                title: 'Invalid signing configuration', file: fileName, startLine: problem.line, startColumn: problem.column
+            });
+        }
+        throw new Error(
+            `Invalid signing configuration ${fileName}:\n    ` +
+            problems.map(it => `${fileName}:${it.line}:${it.column}: ${it.message}`).join('\n    ')
+        );
+    }
+
+    const config = data as SigningConfigData;
+    const inputs: Record<string, string> = {};
+    for (const name of configurableInputs) {
+        const value = config[name];
+        if (value !== undefined) {
+            inputs[name] = Array.isArray(value) ? value.join('\n') : String(value);
+        }
+    }
+    const rules: SigningRule[] = (config.rules || []).map(rule => ({
+        files: asList(rule['files']),
+        keypairAlias: rule['keypair-alias'],
+        digestAlg: rule['digest-alg'],
+        timestamp: rule['timestamp'],
+        unsigned: rule['unsigned'],
+    }));
+    return { path: fileName, inputs, rules };
+};
+
+/**
+ * Reads the `config-file` input, or .digicert/signing.yml of the workspace when it exists.
+ *
+ * @param configFile - Value of the config-file input, empty for the default file
+ * @returns SigningConfigFile | undefined - The values of the file, undefined without a configuration file
+ * @throws Error if config-file doesn't exist or the file is invalid
+ */
+export function readSigningConfigFile(configFile: string): SigningConfigFile | undefined {
+    const fileName = configFile || DEFAULT_CONFIG_FILE;
+    const filePath = path.resolve(process.env['GITHUB_WORKSPACE'] || '', fileName);
+    if (!fs.existsSync(filePath)) {
+        if (configFile) {
+            throw new Error(`config-file ${configFile} does not exist`);
+        }
+        return undefined;
+    }
+
+    const config = parseSigningConfig(fs.readFileSync(filePath, { encoding: 'utf-8' }), fileName);
+    core.info(
+        `Using the signing configuration of ${fileName}` +
+        (config.rules.length > 0 ? ` with ${config.rules.length} signing rule(s)` : '')
+    );
+    return config;
+};
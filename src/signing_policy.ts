@@ -0,0 +1,120 @@
+import * as core from '@actions/core';
+import { isValidStr } from './utils';
+import { CertificateDetails, getKeypairDetails, parseCertificateDetails } from './smctl_keypair';
+import { DEFAULT_DIGEST_ALG } from './signing_report';
+import { actionConfig } from './action_config';
+
+const DEFAULT_MINIMUM_DIGEST_ALG = "SHA-256";
+
+/** Digest algorithms smctl signs with, by strength */
+const digestAlgorithms: Record<string, number> = {
+    "SHA-1": 160,
+    "SHA-256": 256,
+    "SHA-384": 384,
+    "SHA-512": 512,
+};
+
+// Keypairs in these states can't sign, fail before the files are sent to smctl
+const unusableKeypairStatus = /disabled|inactive|suspended|revoked|destroyed|deleted|expired/i;
+
+/**
+ * Maps the spellings smctl accepts (SHA256, sha-256, ...) to SHA-256 etc.
+ *
+ * @throws Error naming the input if the value isn't a digest algorithm smctl supports
+ */
+export function normalizeDigestAlgorithm(value: string, inputName: string): string {
+    const normalized = value.trim().toUpperCase().replace(/^SHA-?/, 'SHA-');
+    if (!(normalized in digestAlgorithms)) {
+        throw new Error(`Invalid ${inputName} ${value}. Supported digest algorithms: ${Object.keys(digestAlgorithms).join(', ')}`);
+    }
+    return normalized;
+};
+
+/**
+ * Checks `digest-alg`, and the digest-alg of every signing rule, against `minimum-digest-alg`
+ * before any tool is downloaded, so typos and weak digests such as SHA-1 fail the job right away.
+ *
+ * @throws Error if either input isn't a digest algorithm or a digest-alg is below the minimum
+ */
+export function checkDigestPolicy() {
+    const { digestAlg, minimumDigestAlg, signingRules } = actionConfig();
+    const minimum = normalizeDigestAlgorithm(minimumDigestAlg || DEFAULT_MINIMUM_DIGEST_ALG, 'minimum-digest-alg');
+    const check = (value: string, inputName: string) => {
+        const digest = normalizeDigestAlgorithm(value, inputName);
+        if (digestAlgorithms[digest] < digestAlgorithms[minimum]) {
+            throw new Error(`${inputName} ${value} is weaker than the signing policy allows (minimum-digest-alg ${minimum})`);
+        }
+    };
+    check(digestAlg || DEFAULT_DIGEST_ALG, 'digest-alg');
+    signingRules.forEach((rule, i) => rule.digestAlg && check(rule.digestAlg, `digest-alg of signing rule ${i + 1}`));
+};
+
+/**
+ * Applies the keypair policy to the details looked up by discoverCertificate: the keypair
+ * must be usable, and its key must match `allowed-key-algorithms` and `minimum-rsa-key-size`.
+ * The certificate expiry is checked by discoverCertificate with `fail-on-certificate-expiry`.
+ *
+ * @param details - Details of keypair-alias, undefined when the lookup failed
+ * @param keypairAlias - The keypair the details belong to, keypair-alias by default
+ * @throws Error listing every policy violation
+ */
+export function checkKeypairPolicy(details: CertificateDetails | undefined, keypairAlias: string = actionConfig().keypairAlias) {
+    const { allowedKeyAlgorithms: allowedAlgorithms, minimumRsaKeySize } = actionConfig();
+    if (!isValidStr(keypairAlias)) {
+        return;
+    }
+
+    if (!details) {
+        if (allowedAlgorithms.length > 0 || minimumRsaKeySize !== undefined) {
+            throw new Error(`Unable to apply the signing policy, keypair ${keypairAlias} couldn't be looked up`);
+        }
+        return;
+    }
+
+    const violations: string[] = [];
+    if (details.keypairStatus && unusableKeypairStatus.test(details.keypairStatus)) {
+        violations.push(`keypair ${keypairAlias} is ${details.keypairStatus}`);
+    }
+    if (allowedAlgorithms.length > 0) {
+        if (!details.keyAlgorithm) {
+            violations.push(`smctl didn't report the key algorithm of keypair ${keypairAlias}`);
+        } else if (!allowedAlgorithms.some(it => it.toUpperCase() === details.keyAlgorithm!.toUpperCase())) {
+            violations.push(`key algorithm ${details.keyAlgorithm} of keypair ${keypairAlias} is not in allowed-key-algorithms ${allowedAlgorithms.join(', ')}`);
+        }
+    }
+    if (minimumRsaKeySize !== undefined && /rsa/i.test(details.keyAlgorithm || '')) {
+        if (details.keySize === undefined) {
+            violations.push(`smctl didn't report the key size of keypair ${keypairAlias}`);
+        } else if (details.keySize < minimumRsaKeySize) {
+            violations.push(`RSA key of keypair ${keypairAlias} has ${details.keySize} bits, minimum-rsa-key-size is ${minimumRsaKeySize}`);
+        }
+    }
+    if (violations.length > 0) {
+        throw new Error(`Signing policy violated:\n  - ${violations.join('\n  - ')}`);
+    }
+};
+
+/**
+ * Applies the keypair policy to the keypairs of the signing rules other than keypair-alias,
+ * which is checked with the details looked up by discoverCertificate. A failed lookup is
+ * handled like the one of keypair-alias: it fails with `fail-on-certificate-expiry`, otherwise it's a warning.
+ *
+ * @param toolPath - Path of smctl as returned by setupTool(SMCTL)
+ * @throws Error listing the policy violations of the first keypair that violates it, or if a lookup fails with fail-on-certificate-expiry
+ */
+export async function checkSigningRuleKeypairs(toolPath?: string) {
+    const { keypairAlias, signingRules, failOnCertificateExpiry } = actionConfig();
+    const keypairs = new Set(signingRules.map(it => it.keypairAlias || '').filter(it => isValidStr(it) && it !== keypairAlias));
+    for (const keypair of keypairs) {
+        var details: CertificateDetails | undefined;
+        try {
+            details = parseCertificateDetails(await getKeypairDetails(keypair, toolPath));
+        } catch (error) {
+            if (failOnCertificateExpiry) {
+                throw new Error(`Unable to check the keypair of a signing rule: ${(error as Error).message}`);
+            }
+            core.warning(`Unable to check the keypair of a signing rule: ${(error as Error).message}`);
+        }
+        checkKeypairPolicy(details, keypair);
+    }
+};
@@ -0,0 +1,199 @@
+import * as core from '@actions/core';
+import * as fs from 'fs/promises';
+import path from 'path';
+import { createSecureTempDir } from './utils';
+import { recordSigningReport } from './job_summary';
+
+export const DEFAULT_DIGEST_ALG = "SHA-256";
+
+export enum SigningStatus {
+    SIGNED = "SIGNED",
+    SKIPPED = "SKIPPED",
+    FAILED = "FAILED",
+    /** smctl succeeded without a result line for the input, it may be a directory or skipped files */
+    UNKNOWN = "UNKNOWN",
+};
+
+export type SignedFileResult = {
+    readonly path: string;
+    readonly status: SigningStatus;
+    readonly digestAlgorithm: string;
+    readonly timestamped: boolean;
+    readonly error?: string;
+    /** Keypair the file was signed with, set when the files were signed in several smctl invocations */
+    readonly keypairAlias?: string;
+    /** Number of signing attempts the result comes from, set when the file was signed again after failing */
+    readonly attempts?: number;
+};
+
+export type SigningReport = {
+    readonly keypairAlias: string;
+    readonly exitCode: number;
+    readonly signedCount: number;
+    readonly skippedCount: number;
+    readonly failedCount: number;
+    readonly files: SignedFileResult[];
+};
+
+export type SigningOptions = {
+    readonly digestAlgorithm: string;
+    readonly timestamp: boolean;
+};
+
+/**
+ * Per-file result lines printed by `smctl sign`. The first capture group is
+ * always the file path, the optional second one the failure reason.
+ * The bare `Signed:` and `Skipped:` forms also match summary lines like `Signed: 3`,
+ * which parseSmctlOutput tells apart by the path.
+ */
+const resultLinePatterns: ReadonlyArray<[RegExp, SigningStatus]> = [
+    [/^(?:successfully signed|signed successfully|signed):?\s+(.+)$/i, SigningStatus.SIGNED],
+    [/^(?:skipped|skipping)(?:\s+already signed(?:\s+file)?)?:?\s+(.+)$/i, SigningStatus.SKIPPED],
+    [/^(?:failed to sign|signing failed for):?\s+(.+?)(?::\s+(.*))?$/i, SigningStatus.FAILED],
+];
+
+function toResult(filePath: string, status: SigningStatus, options: SigningOptions, error?: string): SignedFileResult {
+    return {
+        path: filePath,
+        status,
+        digestAlgorithm: options.digestAlgorithm,
+        timestamped: status === SigningStatus.SIGNED && options.timestamp,
+        ...(error ? { error } : {}),
+    };
+}
+
+/** Whether the reported path is one of the smctl inputs or lies in an input directory */
+function isInputPath(filePath: string, inputs: string[]): boolean {
+    const normalize = (it: string) => process.platform === 'win32' ? path.resolve(it).toLowerCase() : path.resolve(it);
+    const file = normalize(filePath);
+    return inputs.map(normalize).some(input => file === input || file.startsWith(input.endsWith(path.sep) ? input : input + path.sep));
+}
+
+/**
+ * Parses the combined output of `smctl sign` into one result per file.
+ * Only lines naming an input, or a file under an input directory, are results.
+ * When a file is reported more than once, the last line for it wins.
+ *
+ * @param output - stdout and stderr of the smctl process
+ * @param inputs - Files and directories passed to smctl with --input
+ * @param options - Digest algorithm and timestamping requested for this run
+ * @returns SignedFileResult[] - Results in the order the files were first reported
+ */
+export function parseSmctlOutput(output: string, inputs: string[], options: SigningOptions): SignedFileResult[] {
+    const results = new Map<string, SignedFileResult>();
+    for (const rawLine of output.split(/\r?\n/)) {
+        const line = rawLine.trim();
+        for (const [pattern, status] of resultLinePatterns) {
+            const match = line.match(pattern);
+            if (match && isInputPath(match[1].trim(), inputs)) {
+                const filePath = match[1].trim();
+                results.set(filePath, toResult(filePath, status, options, match[2]?.trim()));
+                break;
+            }
+        }
+    }
+    return Array.from(results.values());
+}
+
+/**
+ * Builds the signing report from the smctl process result.
+ * If smctl printed no per-file lines, every input is still reported so the report never
+ * silently drops files: as failed when smctl failed, otherwise as unknown, which isn't counted.
+ */
+export function buildSigningReport(
+    keypairAlias: string,
+    inputs: string[],
+    execOutput: { exitCode: number, stdout: string, stderr: string },
+    options: SigningOptions
+): SigningReport {
+    var files = parseSmctlOutput(`${execOutput.stdout}\n${execOutput.stderr}`, inputs, options);
+    if (files.length === 0) {
+        const failed = execOutput.exitCode !== 0;
+        const reason = execOutput.stderr.trim().split(/\r?\n/).pop() || `smctl exited with code ${execOutput.exitCode}`;
+        files = inputs.map(input => toResult(
+            input,
+            failed ? SigningStatus.FAILED : SigningStatus.UNKNOWN,
+            options,
+            failed ? reason : undefined
+        ));
+    }
+
+    const count = (status: SigningStatus) => files.filter(it => it.status === status).length;
+    return {
+        keypairAlias,
+        exitCode: execOutput.exitCode,
+        signedCount: count(SigningStatus.SIGNED),
+        skippedCount: count(SigningStatus.SKIPPED),
+        failedCount: count(SigningStatus.FAILED),
+        files,
+    };
+}
+
+/**
+ * Merges the reports of the smctl invocations of rule based or parallel signing into one report.
+ * Every file keeps the keypair it was signed with.
+ *
+ * @param keypairAlias - keypair-alias input, used for the files no rule matched
+ * @param reports - Reports of the invocations, in the order they ran
+ */
+export function mergeSigningReports(keypairAlias: string, reports: SigningReport[]): SigningReport {
+    const files = reports.flatMap(report => report.files.map(it => ({ ...it, keypairAlias: report.keypairAlias })));
+    const count = (status: SigningStatus) => files.filter(it => it.status === status).length;
+    return {
+        keypairAlias,
+        exitCode: reports.find(it => it.exitCode !== 0)?.exitCode || 0,
+        signedCount: count(SigningStatus.SIGNED),
+        skippedCount: count(SigningStatus.SKIPPED),
+        failedCount: count(SigningStatus.FAILED),
+        files,
+    };
+}
+
+/**
+ * Replaces the results of the files that were signed again with the results of the retry.
+ *
+ * @param report - Report of the previous attempts
+ * @param retry - Report of signing the failed files of `report` again
+ * @param attempt - Number of the retry attempt, the first signing being attempt 1
+ */
+export function mergeRetryReport(report: SigningReport, retry: SigningReport, attempt: number): SigningReport {
+    const retried = new Map(retry.files.map(it => [it.path, { ...it, attempts: attempt }]));
+    const files = report.files.map(it => retried.get(it.path) || it);
+    const count = (status: SigningStatus) => files.filter(it => it.status === status).length;
+    return {
+        ...report,
+        exitCode: retry.exitCode,
+        signedCount: count(SigningStatus.SIGNED),
+        skippedCount: count(SigningStatus.SKIPPED),
+        failedCount: count(SigningStatus.FAILED),
+        files,
+    };
+}
+
+/**
+ * Writes the report as JSON under RUNNER_TEMP, exposes it through the action outputs
+ * and records it for the job summary.
+ *
+ * @returns Promise<string> - Absolute path of the written report
+ */
+export async function publishSigningReport(report: SigningReport): Promise<string> {
+    recordSigningReport(report);
+    const reportDir = await createSecureTempDir('signing-report-');
+    const reportPath = path.join(reportDir, 'signing-report.json');
+    await fs.writeFile(reportPath, JSON.stringify(report, null, 2), { flush: true });
+    core.info(`Signing report written @ ${reportPath}`);
+    core.info(`Signed: ${report.signedCount}, skipped: ${report.skippedCount}, failed: ${report.failedCount}`);
+    const unknown = report.files.filter(it => it.status === SigningStatus.UNKNOWN);
+    if (unknown.length > 0) {
+        core.warning(
+            `smctl reported no result for ${unknown.length} input(s), they are not counted: ` +
+            `${unknown.slice(0, 5).map(it => it.path).join(', ')}${unknown.length > 5 ? ', ...' : ''}`
+        );
+    }
+
+    core.setOutput('signed-count', report.signedCount);
+    core.setOutput('skipped-count', report.skippedCount);
+    core.setOutput('failed-count', report.failedCount);
+    core.setOutput('report-path', reportPath);
+    return reportPath;
+}
@@ -0,0 +1,57 @@
+import * as core from '@actions/core';
+import * as glob from '@actions/glob';
+import path from 'path';
+
+import { isGlobPattern } from './input_patterns';
+import { SigningRule } from './signing_config_file';
+
+/** Files signed with the options of one rule, rule is undefined for the files no rule matches */
+export type SigningGroup = {
+    readonly rule?: SigningRule;
+    readonly files: string[];
+};
+
+// .jar, .tar.gz etc. match by extension, everything else is a glob pattern
+const isExtension = (entry: string): boolean => /^\.[^\\/]+$/.test(entry) && !isGlobPattern(entry);
+
+async function ruleMatcher(rule: SigningRule): Promise<(file: string) => boolean> {
+    const extensions = rule.files.filter(isExtension).map(it => it.toLowerCase());
+    const patterns = rule.files.filter(it => !isExtension(it));
+    const globbed = new Set<string>();
+    if (patterns.length > 0) {
+        const globber = await glob.create(patterns.join('\n'), { followSymbolicLinks: true, matchDirectories: false });
+        (await globber.glob()).forEach(it => globbed.add(path.resolve(it)));
+    }
+    return (file: string) =>
+        extensions.some(it => file.toLowerCase().endsWith(it)) || globbed.has(path.resolve(file));
+};
+
+/**
+ * Groups the files to sign by the first signing rule that matches them. Rules match
+ * files by extension (.jar) or by glob pattern relative to the workspace (**\/*.exe).
+ *
+ * @param files - Absolute paths of the files to sign
+ * @param rules - Signing rules of the configuration file, in order
+ * @returns Promise<SigningGroup[]> - One group per rule that matched files, in rule order, then the unmatched files
+ */
+export async function groupFilesByRule(files: string[], rules: SigningRule[]): Promise<SigningGroup[]> {
+    const matchers = await Promise.all(rules.map(ruleMatcher));
+    const groups = rules.map(rule => ({ rule, files: [] as string[] }));
+    const unmatched: string[] = [];
+    for (const file of files) {
+        const index = matchers.findIndex(matches => matches(file));
+        if (index >= 0) {
+            groups[index].files.push(file);
+        } else {
+            unmatched.push(file);
+        }
+    }
+
+    groups.forEach((group, i) => core.info(`Signing rule ${i + 1} (${group.rule.files.join(', ')}) matched ${group.files.length} file(s)`));
+    const rv: SigningGroup[] = groups.filter(it => it.files.length > 0);
+    if (unmatched.length > 0) {
+        core.info(`${unmatched.length} file(s) matched no signing rule`);
+        rv.push({ files: unmatched });
+    }
+    return rv;
+};
@@ -0,0 +1,107 @@
+import * as core from '@actions/core';
+import { SMCTL } from './tool_setup';
+import { actionConfig } from './action_config';
+import { execWithTimeout } from './cancellation';
+
+const fingerprintKeys = ["certificate fingerprint", "fingerprint", "thumbprint"];
+const subjectKeys = ["certificate subject", "subject", "subject dn"];
+const issuerKeys = ["certificate issuer", "issuer", "issuer dn"];
+const validFromKeys = ["valid from", "not before", "certificate valid from"];
+const validToKeys = ["valid to", "valid until", "not after", "expiry date", "certificate expiry"];
+const keyAlgorithmKeys = ["key algorithm", "key type", "algorithm"];
+const keySizeKeys = ["key size", "key length"];
+const keypairStatusKeys = ["keypair status", "status"];
+
+export type CertificateDetails = {
+    readonly fingerprint?: string;
+    readonly subject?: string;
+    readonly issuer?: string;
+    readonly validFrom?: Date;
+    readonly validTo?: Date;
+    readonly keyAlgorithm?: string;
+    readonly keySize?: number;
+    readonly keypairStatus?: string;
+};
+
+/**
+ * Parses `Key: Value` lines printed by smctl into a map with lowercase keys.
+ * Lines without a separator are ignored.
+ */
+export function parseKeyValueOutput(output: string): Map<string, string> {
+    const values = new Map<string, string>();
+    for (const rawLine of output.split(/\r?\n/)) {
+        const separator = rawLine.indexOf(':');
+        if (separator <= 0) {
+            continue;
+        }
+        const key = rawLine.substring(0, separator).trim().toLowerCase();
+        const value = rawLine.substring(separator + 1).trim();
+        if (key && value && !values.has(key)) {
+            values.set(key, value);
+        }
+    }
+    return values;
+}
+
+export const normalizeFingerprint = (fingerprint: string): string =>
+    fingerprint.replace(/[\s:]/g, '').toLowerCase();
+
+export function findFingerprint(values: Map<string, string>): string | undefined {
+    const key = fingerprintKeys.find(it => values.has(it));
+    return key ? normalizeFingerprint(values.get(key)!) : undefined;
+}
+
+const firstValue = (values: Map<string, string>, keys: string[]): string | undefined =>
+    values.get(keys.find(it => values.has(it)) || '');
+
+function parseDate(values: Map<string, string>, keys: string[]): Date | undefined {
+    const value = firstValue(values, keys);
+    if (!value) {
+        return undefined;
+    }
+    const date = new Date(value);
+    if (isNaN(date.getTime())) {
+        core.warning(`Unable to parse certificate date ${value}`);
+        return undefined;
+    }
+    return date;
+}
+
+/**
+ * Picks the certificate details out of the output of `smctl keypair get`.
+ * Fields smctl doesn't print are left undefined.
+ */
+export function parseCertificateDetails(values: Map<string, string>): CertificateDetails {
+    return {
+        fingerprint: findFingerprint(values),
+        subject: firstValue(values, subjectKeys),
+        issuer: firstValue(values, issuerKeys),
+        validFrom: parseDate(values, validFromKeys),
+        validTo: parseDate(values, validToKeys),
+        keyAlgorithm: firstValue(values, keyAlgorithmKeys),
+        keySize: parseInt(firstValue(values, keySizeKeys) || '', 10) || undefined,
+        keypairStatus: firstValue(values, keypairStatusKeys),
+    };
+}
+
+/**
+ * Looks up a keypair and its certificate with `smctl keypair get`.
+ *
+ * @param keypairAlias - Alias of the keypair to look up
+ * @param toolPath - Path of smctl as returned by setupTool(SMCTL)
+ * @returns Promise<Map<string, string>> - Details printed by smctl, keyed by lowercase field name
+ * @throws Error if smctl fails to look up the keypair, or runs longer than sign-timeout
+ */
+export async function getKeypairDetails(keypairAlias: string, toolPath?: string): Promise<Map<string, string>> {
+    const tool = toolPath || SMCTL;
+    const rv = await execWithTimeout(tool, ["keypair", "get", "--keypair-alias", keypairAlias], actionConfig().signTimeoutMs, {
+        ignoreReturnCode: true,
+        silent: true,
+    });
+    if (rv.exitCode !== 0) {
+        throw new Error(`Failed to look up keypair ${keypairAlias} (exit code ${rv.exitCode}): ${rv.stderr.trim() || rv.stdout.trim()}`);
+    }
+    const details = parseKeyValueOutput(rv.stdout);
+    core.debug(`Keypair ${keypairAlias} details: ${JSON.stringify(Object.fromEntries(details))}`);
+    return details;
+}
@@ -1,31 +1,255 @@
-import * as exec from '@actions/exec';
 import * as core from '@actions/core';
+import * as fs from 'fs/promises';
 import { SMCTL } from './tool_setup';
-import { isValidStr } from './utils';
+import { isValidStr, redactUrl, retryWithBackoff, runWithConcurrency } from './utils';
+import { expandDirectories, expandInputFiles, resolveSigningInputs } from './input_patterns';
+import {
+    buildSigningReport, DEFAULT_DIGEST_ALG, mergeRetryReport, mergeSigningReports, publishSigningReport, SigningReport, SigningStatus
+} from './signing_report';
+import { ActionConfig, actionConfig } from './action_config';
+import { groupFilesByRule } from './signing_rules';
+import { execWithTimeout } from './cancellation';
+import { SigningRule } from './signing_config_file';
 
-export async function simplifiedSign(toolPath?: string) {
-    const input = core.getInput('input');
-    const keypairAlias = core.getInput('keypair-alias');
-    if (!(isValidStr(input) && isValidStr(keypairAlias))) {
+/** Options of one smctl sign invocation that signing rules can change */
+type SignCommand = {
+    readonly keypairAlias: string;
+    readonly digestAlg: string;
+    readonly timestamp: boolean;
+    readonly unsigned: boolean;
+};
+
+function signArgs(inputs: string[], command: SignCommand, config: ActionConfig): string[] {
+    var args = ["sign", "--simple"];
+    inputs.forEach(input => args.push("--input", input));
+    args.push("--keypair-alias", command.keypairAlias);
+    if (!command.timestamp) args.push("--timestamp=false")
+    if (command.digestAlg) args.push("--digalg", command.digestAlg)
+    if (!config.zeroExitCodeOnFailure) args.push("--exit-non-zero-on-fail")
+    if (config.failFast) args.push("--failfast");
+    if (command.unsigned) args.push("--unsigned")
+    if (config.bulkSignMode) args.push("--bulk");
+    return args;
+};
+
+/** Quotes the arguments the shell would split, for logging */
+function formatCommandLine(tool: string, args: string[]): string {
+    return [tool, ...args].map(it => /[\s"'$`\\]/.test(it) ? `'${it.replace(/'/g, `'\\''`)}'` : it).join(' ');
+};
+
+async function runSign(tool: string, inputs: string[], command: SignCommand, config: ActionConfig): Promise<SigningReport> {
+    // Failures are reported after the signing report is written, so keep the output on non-zero exit codes
+    const execOutput = await execWithTimeout(tool, signArgs(inputs, command, config), config.signTimeoutMs, { ignoreReturnCode: true });
+    return buildSigningReport(command.keypairAlias, inputs, execOutput, {
+        digestAlgorithm: command.digestAlg || DEFAULT_DIGEST_ALG,
+        timestamp: command.timestamp,
+    });
+};
+
+// Backoff before signing failed files again, doubled for every further retry
+const SIGN_RETRY_DELAY_MS = 5000;
+
+/**
+ * Signs the inputs, then signs the files that failed again, up to sign-retries times.
+ * Files signed on a retry keep the attempt their result comes from.
+ */
+async function signWithRetries(tool: string, inputs: string[], command: SignCommand, config: ActionConfig): Promise<SigningReport> {
+    var report: SigningReport | undefined;
+    var attempt = 0;
+    await retryWithBackoff(async () => {
+        attempt++;
+        if (!report) {
+            report = await runSign(tool, inputs, command, config);
+        } else {
+            const failed = report.files.filter(it => it.status === SigningStatus.FAILED).map(it => it.path);
+            report = mergeRetryReport(report, await runSign(tool, failed, command, config), attempt);
+        }
+        // The last attempt keeps its failures for the report instead of failing the retry
+        if (report.failedCount > 0 && attempt <= config.signRetries) {
+            throw new Error(`${report.failedCount} file(s) failed to sign`);
+        }
+    }, `Signing with keypair ${command.keypairAlias}`, { maxAttempts: config.signRetries + 1, initialDelayMs: SIGN_RETRY_DELAY_MS });
+    return report!;
+};
+
+/** One smctl sign invocation, signing inputs with the options of a signing rule or the inputs */
+type SignInvocation = {
+    readonly inputs: string[];
+    readonly command: SignCommand;
+    readonly rule?: SigningRule;
+    /** Which files this invocation signs, for the log when signing in several invocations */
+    readonly description?: string;
+};
+
+// Every file is one --input of the command line, which Windows limits to 32,767 characters
+const MAX_INPUTS_PER_COMMAND = 100;
+const MAX_COMMAND_LINE_LENGTH = 24000;
+
+/**
+ * Splits the invocations that would exceed MAX_INPUTS_PER_COMMAND inputs or a command
+ * line of MAX_COMMAND_LINE_LENGTH characters into batches signed one after the other.
+ */
+function batchInvocations(tool: string, invocations: SignInvocation[], config: ActionConfig): SignInvocation[] {
+    return invocations.flatMap(invocation => {
+        const baseLength = formatCommandLine(tool, signArgs([], invocation.command, config)).length;
+        const batches: string[][] = [[]];
+        var length = baseLength;
+        for (const input of invocation.inputs) {
+            const inputLength = formatCommandLine('--input', [input]).length + 1;
+            const batch = batches[batches.length - 1];
+            if (batch.length > 0 && (batch.length >= MAX_INPUTS_PER_COMMAND || length + inputLength > MAX_COMMAND_LINE_LENGTH)) {
+                batches.push([input]);
+                length = baseLength + inputLength;
+            } else {
+                batch.push(input);
+                length += inputLength;
+            }
+        }
+        if (batches.length === 1) {
+            return [invocation];
+        }
+        return batches.map((inputs, i) => ({
+            ...invocation,
+            inputs,
+            description: `${invocation.description || 'input'}, batch ${i + 1} of ${batches.length}`,
+        }));
+    });
+};
+
+// Chunks per smctl process, so a worker that finishes early picks up more files
+const CHUNKS_PER_WORKER = 4;
+
+/**
+ * Splits every invocation into chunks of files for the parallel smctl processes of `concurrency`.
+ * Chunks hold at most MAX_INPUTS_PER_COMMAND files, batchInvocations still splits the chunks
+ * whose command line would be too long.
+ */
+function chunkInvocations(invocations: SignInvocation[], concurrency: number): SignInvocation[] {
+    const fileCount = invocations.reduce((sum, it) => sum + it.inputs.length, 0);
+    const chunkSize = Math.min(MAX_INPUTS_PER_COMMAND, Math.max(1, Math.ceil(fileCount / (concurrency * CHUNKS_PER_WORKER))));
+    return invocations.flatMap(invocation => {
+        const chunkCount = Math.ceil(invocation.inputs.length / chunkSize);
+        return Array.from({ length: chunkCount }, (_, i) => ({
+            ...invocation,
+            inputs: invocation.inputs.slice(i * chunkSize, (i + 1) * chunkSize),
+            description: `${invocation.description || 'input'}, chunk ${i + 1} of ${chunkCount}`,
+        }));
+    });
+};
+
+/**
+ * Groups the files by the first signing rule matching them, one smctl invocation per rule.
+ * Rule options that aren't set fall back to the inputs.
+ *
+ * @throws Error if files would be signed without a keypair alias
+ */
+async function planRuleInvocations(config: ActionConfig): Promise<SignInvocation[]> {
+    const groups = await groupFilesByRule(await expandInputFiles(config.input), config.signingRules);
+    const invocations = groups.map(group => ({
+        inputs: group.files,
+        rule: group.rule,
+        description: group.rule ? `rule ${group.rule.files.join(', ')}` : 'files matching no rule',
+        command: {
+            keypairAlias: group.rule?.keypairAlias || config.keypairAlias,
+            digestAlg: group.rule?.digestAlg || config.digestAlg,
+            timestamp: group.rule?.timestamp ?? config.timestamp,
+            unsigned: group.rule?.unsigned ?? config.unsigned,
+        },
+    }));
+    const withoutKeypair = invocations.filter(it => !isValidStr(it.command.keypairAlias));
+    if (withoutKeypair.length > 0) {
+        const files = withoutKeypair.flatMap(it => it.inputs);
+        throw new Error(
+            `keypair-alias is not set and no signing rule with a keypair-alias matches ${files.length} file(s): ` +
+            `${files.slice(0, 5).join(', ')}${files.length > 5 ? ', ...' : ''}`
+        );
+    }
+    return invocations;
+};
+
+/**
+ * Prints what simplifiedSign would run in dry-run mode: the smctl command lines, the
+ * credentials smctl would read with the secrets redacted, and the files that would be signed.
+ * The files are the inputs picked when planning the invocations, directories are listed with
+ * the signable files they contain.
+ */
+async function printDryRun(tool: string, invocations: SignInvocation[], config: ActionConfig) {
+    const env = (name: string, secret: boolean) => {
+        const value = process.env[name] || '';
+        return `${name}=${!value ? '<not set>' : secret ? '***' : redactUrl(value)}`;
+    };
+    core.info(`Dry run: nothing is signed, smctl would run ${invocations.length} time(s) with ` +
+        [env('SM_HOST', false), env('SM_API_KEY', true), env('SM_CLIENT_CERT_FILE', false), env('SM_CLIENT_CERT_PASSWORD', true)].join(' '));
+
+    var fileCount = 0;
+    var directories = 0;
+    for (const invocation of invocations) {
+        const files = await expandDirectories(invocation.inputs);
+        fileCount += files.length;
+        for (const input of invocation.inputs) {
+            if ((await fs.stat(input).catch(() => undefined))?.isDirectory()) {
+                directories++;
+            }
+        }
+        core.info(formatCommandLine(tool, signArgs(invocation.inputs, invocation.command, config)));
+        files.forEach(it => core.info(`\t${it}`));
+    }
+    core.info(`Dry run: ${fileCount} file(s) would be signed`);
+    if (directories > 0) {
+        core.info(`smctl picks the files of the ${directories} directory input(s) itself, the listed files are the signable ones they contain`);
+    }
+};
+
+export async function simplifiedSign(toolPath?: string): Promise<SigningReport | undefined> {
+    const config = actionConfig();
+    const patterns = config.input;
+    const keypairAlias = config.keypairAlias;
+    const byRules = config.signingRules.length > 0;
+    if (!(patterns.length > 0 && (isValidStr(keypairAlias) || byRules))) {
         core.info(`Set input and keypair-alias to do signing.`);
         return;
     }
 
-    const digestAlg = core.getInput("digest-alg");
-    const timsestamp = core.getBooleanInput('timestamp')
-    const zeroExit = core.getBooleanInput('zero-exit-code-on-failure');
-    const failFast = core.getBooleanInput("fail-fast");
-    const unsigned = core.getBooleanInput("unsigned");
-    const bulkSign = core.getBooleanInput("bulk-sign-mode");
+    const tool = toolPath || SMCTL;
+    const parallel = config.concurrency > 1;
+    var invocations: SignInvocation[] = byRules ? await planRuleInvocations(config) : [{
+        // Chunks need the individual files, smctl expands directories itself otherwise
+        inputs: parallel ? await expandInputFiles(patterns) : await resolveSigningInputs(patterns),
+        command: {
+            keypairAlias,
+            digestAlg: config.digestAlg,
+            timestamp: config.timestamp,
+            unsigned: config.unsigned,
+        },
+    }];
+    if (parallel) {
+        invocations = chunkInvocations(invocations, config.concurrency);
+        core.info(`Signing in ${invocations.length} chunk(s) with up to ${config.concurrency} parallel smctl processes`);
+    }
+    invocations = batchInvocations(tool, invocations, config);
+    if (config.dryRun) {
+        await printDryRun(tool, invocations, config);
+        return;
+    }
+
+    const results = await runWithConcurrency(invocations, config.concurrency, async invocation => {
+        if (invocation.description) {
+            core.info(`Signing ${invocation.inputs.length} file(s) of ${invocation.description} with keypair ${invocation.command.keypairAlias}`);
+        }
+        return await signWithRetries(tool, invocation.inputs, invocation.command, config);
+    }, report => report.exitCode !== 0 && config.failFast);
 
-    var args = ["sign", "--simple", "--input", input, "--keypair-alias", keypairAlias];
-    if (!timsestamp) args.push("--timestamp=false")
-    if (digestAlg) args.push("--digalg", digestAlg)
-    if (!zeroExit) args.push("--exit-non-zero-on-fail")
-    if (failFast) args.push("--failfast");
-    if (unsigned) args.push("--unsigned")
-    if (bulkSign) args.push("--bulk");
+    // fail-fast stops the workers from starting further invocations
+    const notStarted = invocations.filter((_, i) => !results[i]).reduce((sum, it) => sum + it.inputs.length, 0);
+    if (notStarted > 0) {
+        core.warning(`Signing stopped by fail-fast, ${notStarted} file(s) were not signed`);
+    }
+    const reports = results.filter((it): it is SigningReport => it !== undefined);
+    const report = invocations.length > 1 || byRules ? mergeSigningReports(keypairAlias, reports) : reports[0];
+    await publishSigningReport(report);
 
-    const tool = toolPath || SMCTL;
-    await exec.getExecOutput(tool, args)
-}
\ No newline at end of file
+    if (report.exitCode !== 0) {
+        throw new Error(`smctl sign failed with exit code ${report.exitCode}, ${report.failedCount} file(s) failed to sign`);
+    }
+    return report;
+}
@@ -0,0 +1,127 @@
+import * as core from '@actions/core';
+import Ajv, { ErrorObject, ValidateFunction } from 'ajv';
+import { readFileSync } from 'fs';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+import { fetchToolFile } from './tool_source';
+
+export const MANIFEST_FILE_NAME = "manifest.json";
+
+// Published next to action.yml, see the $id of the schema
+const SCHEMA_FILE = path.join(__dirname, '..', 'schemas', 'tool-manifest.schema.json');
+
+/** A tool definition as the tool definition of the schema allows it */
+export type ManifestToolEntry = {
+    readonly name: string;
+    readonly dlName: string;
+    readonly fName: string;
+    readonly toolType: "LIBRARY" | "EXECUTABLE" | "ARCHIVE";
+    readonly archiveType: "FILE" | "DMG" | "MSI" | "TAR" | "ZIP";
+    readonly explodedDirectoryName?: string;
+    readonly versionFlag?: string;
+    readonly executePermissionRequired?: boolean;
+    readonly needPKCS11Config?: boolean;
+    readonly sha256?: string;
+    readonly size?: number;
+};
+
+/** Tool entries keyed by qualified platform key, e.g. smctl-linux-x64 */
+export type ToolManifest = {
+    readonly schemaVersion: number;
+    readonly tools: Record<string, ManifestToolEntry>;
+};
+
+var validateSchema: ValidateFunction | undefined;
+
+function schemaValidator(): ValidateFunction {
+    if (!validateSchema) {
+        const schema = JSON.parse(readFileSync(SCHEMA_FILE, { encoding: 'utf-8' }));
+        validateSchema = new Ajv({ allErrors: true, allowUnionTypes: true, verbose: true }).compile(schema);
+    }
+    return validateSchema;
+};
+
+/** Describes a schema violation in terms of the keys of the manifest, e.g. tools.smctl-linux-x64.dlName */
+function describeSchemaError(error: ErrorObject): string {
+    const name = error.instancePath.split('/').slice(1)
+        .map(it => it.replace(/~1/g, '/').replace(/~0/g, '~'))
+        .join('.');
+    const subject = name || 'the manifest';
+    switch (error.keyword) {
+        case 'additionalProperties':
+            return `${name ? `${name}: ` : ''}unknown key ${error.params.additionalProperty}`;
+        case 'required':
+            return `${subject} is missing the required key ${error.params.missingProperty}`;
+        case 'propertyNames':
+            return `${subject}: key ${JSON.stringify(error.params.propertyName)} is not a platform key such as smctl-linux-x64`;
+        case 'type':
+            return `${subject} must be ${Array.isArray(error.params.type) ? error.params.type.join(' or ') : error.params.type}`;
+        case 'const':
+            return `${subject} must be ${JSON.stringify(error.params.allowedValue)}`;
+        case 'enum':
+            return `${subject} must be one of ${error.params.allowedValues.join(', ')}, found ${JSON.stringify(error.data)}`;
+        case 'pattern':
+            return `${subject} ${JSON.stringify(error.data)} is not ${error.parentSchema?.description || 'valid'}`;
+        default:
+            return `${subject} ${error.message}`;
+    }
+};
+
+/**
+ * Validates a parsed manifest against schemas/tool-manifest.schema.json.
+ *
+ * @returns string[] - One message per violation, empty when the manifest is valid
+ */
+export function validateToolManifest(manifest: unknown): string[] {
+    const validate = schemaValidator();
+    if (validate(manifest)) {
+        return [];
+    }
+    // A key failing propertyNames is reported once by the propertyNames error itself
+    return (validate.errors || []).filter(it => it.propertyName === undefined).map(describeSchemaError);
+}
+
+const manifests = new Map<string, Promise<ToolManifest | undefined>>();
+
+async function fetchToolManifest(manifestUrl: string): Promise<ToolManifest | undefined> {
+    const downloadedPath = await fetchToolFile(manifestUrl).catch(reason => {
+        core.info(`No tool manifest available @ ${manifestUrl} (${reason}), using the built-in tool definitions`);
+        return undefined;
+    });
+    if (!downloadedPath) {
+        return undefined;
+    }
+
+    const content = await fs.readFile(downloadedPath, { encoding: 'utf-8' });
+    var manifest: unknown;
+    try {
+        manifest = JSON.parse(content);
+    } catch (error) {
+        throw new Error(`Tool manifest ${manifestUrl} is not valid JSON: ${error}`);
+    }
+    const errors = validateToolManifest(manifest);
+    if (errors.length > 0) {
+        throw new Error(`Tool manifest ${manifestUrl} is invalid:\n  ${errors.join('\n  ')}`);
+    }
+
+    const rv = manifest as ToolManifest;
+    core.info(`Loaded tool manifest from ${manifestUrl} with ${Object.keys(rv.tools).length} tool definitions`);
+    return rv;
+}
+
+/**
+ * Downloads and validates the tool manifest published next to the tools on the CDN
+ * or in the tools-source-dir mirror. The manifest is fetched once per location and run.
+ *
+ * @param cdnUrl - Location of the tools, the manifest is expected @ `${cdnUrl}/manifest.json`
+ * @returns Promise<ToolManifest | undefined> - undefined when no manifest is published
+ * @throws Error if a manifest is published but does not match the schema
+ */
+export async function loadToolManifest(cdnUrl: string): Promise<ToolManifest | undefined> {
+    const manifestUrl = `${cdnUrl}/${MANIFEST_FILE_NAME}`;
+    if (!manifests.has(manifestUrl)) {
+        manifests.set(manifestUrl, fetchToolManifest(manifestUrl));
+    }
+    return manifests.get(manifestUrl)!;
+}
@@ -6,13 +6,22 @@ import * as fs from 'fs/promises';
 import * as path from 'path';
 
 import { extractDmg } from './macos_dmg_setup';
-import { archiveExtractCallback, calculateSHA256, isSelfHosted, retryWithBackoff } from './utils';
+import { archiveExtractCallback, calculateChecksum, checksumAlgorithmNames, isSelfHosted, retryWithBackoff } from './utils';
 import { installMsi } from './windows_msi_setup';
 import { wrapInDirectory } from './file_noop_setup';
 import { extractTar, extractZip } from './zip_setup';
 import { walk } from './directory_walk_recursive';
-import { setupLibraries } from './windows_library_setup';
+import { registerInstalledLibraries, setupLibraries } from './windows_library_setup';
 import { chmod } from './add_execute_permission';
+import { recordToolSetup } from './job_summary';
+import { parseReportedVersion, versionedCdnUrl, versionMatches } from './tool_version';
+import { loadToolManifest, ManifestToolEntry, ToolManifest } from './tool_manifest';
+import { fetchToolFile } from './tool_source';
+import { configureNetwork } from './network_config';
+import { verifyToolSignature } from './tool_signature';
+import { ChecksumEntry, parseChecksumFile } from './checksum_file';
+import { registerCleanupFile } from './post_cleanup';
+import { actionConfig } from './action_config';
 
 export const SMCTL = "smctl";
 export const SMTOOLS = "smtools";
@@ -20,7 +29,8 @@ export const SMPKCS11 = "smpkcs11";
 export const SMCTK = "smctk";
 export const SCD = "ssm-scd";
 
-const VERSION = core.getInput('cache-version', {required: true});
+// Cache saves run in the background while signing goes on
+const pendingCacheSaves = new Set<Promise<void>>();
 
 const enum LibExtension {
     win32 = ".dll",
@@ -52,9 +62,15 @@ type ToolMetadata = {
     readonly explodedDirectoryName? : string;
     readonly versionFlag?: string;
     readonly executePermissionRequired?: boolean;
+    readonly sha256?: string;
+    readonly size?: number;
     initialized?: boolean;
     toolPath?: string;
-    cacheHitSetup?: (toolPath: string) => void;
+    cacheHit?: boolean;
+    checksum?: string;
+    source?: string;
+    cacheHitSetup?: (toolPath: string) => Promise<void>;
+    installSetup?: (toolPath: string, downloadedPath: string) => void;
     needPKCS11Config?: boolean;
     createSymlink?: (toolPath: string) => Promise<void>;
 };
@@ -141,9 +157,33 @@ const scdMacArm64 = "ssm-scd-darwin-arm64";
 const smtoolsWindowsBundle = "smtools-win32-x64";
 const smtoolsLinuxBundle = "smtools-linux-x64";
 
+const smtoolsWindowsValues = {
+    archived: true,
+    archiveType: ArchiveType.MSI,
+    toolType: ToolType.ARCHIVE,
+    // A cached smtools wasn't installed by this run, so its KSP and CSP may not be registered
+    async cacheHitSetup(toolPath: string) {
+        await setupLibraries(toolPath);
+    },
+    installSetup(toolPath: string, downloadedPath: string) {
+        registerInstalledLibraries(toolPath, downloadedPath);
+    },
+    needPKCS11Config: true,
+};
+
+const smtoolsLinuxValues = {
+    archived: true,
+    archiveType: ArchiveType.TAR,
+    toolType: ToolType.ARCHIVE,
+    executePermissionRequired: true,
+    needPKCS11Config: true,
+};
+
+// Linux and Windows arm64 builds aren't listed, as their CDN file names aren't known.
+// A tool manifest (use-tool-manifest) can add them.
 const staticToolDefintions = new Map<string, ToolMetadata>([
-    [ smctlWindowsX64, {...smctlValues, dlName: "smctl.exe", fName: "smctl.exe" }],
-    [ smctlLinuxX64,   {...smctlValues, dlName: "smctl", executePermissionRequired: true }],
+    [ smctlWindowsX64,   {...smctlValues, dlName: "smctl.exe", fName: "smctl.exe" }],
+    [ smctlLinuxX64,     {...smctlValues, dlName: "smctl", executePermissionRequired: true }],
     [ smctlMacX64,     {...smctlMacValues }],
     [ smctlMacArm64,   {...smctlMacValues }],
     [ smpkcs11MacX64,     {...smpkcs11MacValues }],
@@ -154,27 +194,17 @@ const staticToolDefintions = new Map<string, ToolMetadata>([
     [ scdMacArm64, {...scdMacValues}],
 
     [ smtoolsWindowsBundle, {
+        ...smtoolsWindowsValues,
         name: smtoolsWindowsBundle,
-        archived: true,
-        archiveType: ArchiveType.MSI,
-        toolType: ToolType.ARCHIVE,
         dlName: "smtools-windows-x64.msi",
         fName: "smtools-windows-x64.msi",
-        cacheHitSetup(toolPath) {
-            setupLibraries(toolPath);
-        },
-        needPKCS11Config: true,
     }],
     [ smtoolsLinuxBundle, {
+        ...smtoolsLinuxValues,
         name: smtoolsLinuxBundle,
-        archived: true,
-        archiveType: ArchiveType.TAR,
-        toolType: ToolType.ARCHIVE,
         explodedDirectoryName: smtoolsLinuxBundle,
         dlName: "smtools-linux-x64.tar.gz",
         fName: "smtools-linux-x64.tar.gz",
-        executePermissionRequired: true,
-        needPKCS11Config: true,
     }],
 ]);
 
@@ -209,6 +239,9 @@ async function writePKCS11ConfigFile(toolPath: string) {
 
         await fs.writeFile(cfgPath, cfg, {flush: true});
     }
+    if (actionConfig().removePkcs11Config) {
+        registerCleanupFile(cfgPath);
+    }
     if(core.platform.isWindows) {
         cfgPath = cfgPath.replaceAll('\\', '\\\\');
     }
@@ -220,19 +253,117 @@ function qulifiedToolName(name: string, os?: string, arch?: string): string {
     return `${name}-${os || core.platform.platform}-${arch || core.platform.arch}`;
 };
 
-function downloadUrl(tool: ToolMetadata) {
-    const cdn = core.getInput('digicert-cdn', {required: true});
-    
-    // Security: Validate that CDN URL uses HTTPS to prevent MITM attacks
-    if (!cdn.startsWith('https://')) {
-        throw new Error(
-            `Invalid digicert-cdn URL: "${cdn}". ` +
-            `The CDN URL must use HTTPS protocol for security. ` +
-            `HTTP or other protocols are not allowed to prevent man-in-the-middle attacks.`
-        );
+function supportedPlatformsOf(definitions: Map<string, ToolMetadata>, name: string): string[] {
+    const prefix = `${name}-`;
+    return Array.from(definitions.keys())
+        .filter(it => it.startsWith(prefix))
+        .map(it => it.substring(prefix.length));
+};
+
+/** Ordered digicert-cdn mirrors, one per line, for the pinned tool-version if any */
+function cdnBaseUrls(): string[] {
+    const { digicertCdn, toolVersion } = actionConfig();
+    return digicertCdn.map(cdn => toolVersion ? versionedCdnUrl(cdn, toolVersion) : cdn);
+};
+
+/** Directory of the tools-source-dir mirror, or the CDN mirrors of the tools in order of preference */
+function toolsBaseLocations(): string[] {
+    const localDir = actionConfig().toolsSourceDir;
+    return localDir ? [localDir] : cdnBaseUrls();
+};
+
+function downloadUrls(tool: ToolMetadata): string[] {
+    const localDir = actionConfig().toolsSourceDir;
+    return localDir ? [path.join(localDir, tool.dlName)] : cdnBaseUrls().map(it => `${it}/${tool.dlName}`);
+};
+
+/** Retries CDN downloads, a file missing from tools-source-dir won't show up by retrying */
+async function fetchWithRetry(location: string, operationName: string): Promise<string> {
+    if (actionConfig().toolsSourceDir) {
+        return await fetchToolFile(location);
     }
-    
-    return `${cdn}/${tool.dlName}`;
+    return await retryWithBackoff(
+        async () => await fetchToolFile(location),
+        operationName,
+        { maxAttempts: 3, initialDelayMs: 1000 }
+    );
+};
+
+type MirroredFile = {
+    readonly fetchedPath: string;
+    readonly location: string;
+};
+
+/**
+ * Fetches a file from the first mirror that serves it and passes verification.
+ * Each mirror is retried on its own before moving on to the next one.
+ *
+ * @throws Error with the failure of a single mirror, or the failures of all mirrors
+ */
+async function fetchFromMirrors(
+    locations: string[],
+    operationName: string,
+    verify?: (fetchedPath: string, location: string) => Promise<void>
+): Promise<MirroredFile> {
+    const failures: string[] = [];
+    for (const [index, location] of locations.entries()) {
+        try {
+            const fetchedPath = await fetchWithRetry(location, `${operationName} from ${location}`);
+            if (verify) {
+                await verify(fetchedPath, location);
+            }
+            return { fetchedPath, location };
+        } catch (error) {
+            if (locations.length === 1) {
+                throw error;
+            }
+            const reason = error instanceof Error ? error.message : String(error);
+            failures.push(`${location}: ${reason}`);
+            if (index < locations.length - 1) {
+                core.warning(`${operationName} from ${location} failed, trying the next mirror. Reason: ${reason}`);
+            }
+        }
+    }
+    throw new Error(`${operationName} failed on all ${locations.length} mirrors:\n  ${failures.join('\n  ')}`);
+};
+
+function fromManifestEntry(entry: ManifestToolEntry, builtIn?: ToolMetadata): ToolMetadata {
+    return {
+        // Keeps the behavior that can't be expressed in the manifest, e.g. cacheHitSetup and createSymlink
+        ...builtIn,
+        ...entry,
+        toolType: entry.toolType as ToolType,
+        archiveType: entry.archiveType as ArchiveType,
+        archived: entry.archiveType !== ArchiveType.NONE,
+        initialized: false,
+    };
+};
+
+/**
+ * Tool definitions for this run: the built-in table, updated with the
+ * manifest published on the CDN when use-tool-manifest is enabled.
+ */
+async function toolDefinitions(): Promise<Map<string, ToolMetadata>> {
+    if (!actionConfig().useToolManifest) {
+        return staticToolDefintions;
+    }
+    var manifest: ToolManifest | undefined;
+    for (const location of toolsBaseLocations()) {
+        manifest = await loadToolManifest(location);
+        if (manifest) {
+            break;
+        }
+    }
+    if (!manifest) {
+        return staticToolDefintions;
+    }
+
+    const definitions = new Map(staticToolDefintions);
+    for (const [key, entry] of Object.entries(manifest.tools)) {
+        core.debug(`Using tool manifest definition for ${key}`);
+        definitions.set(key, fromManifestEntry(entry, staticToolDefintions.get(key)));
+    }
+    return definitions;
 };
 
 async function postDownload(tool: ToolMetadata, downloadedFilePath: string, callback: archiveExtractCallback): Promise<void> {
@@ -249,84 +380,109 @@ async function postDownload(tool: ToolMetadata, downloadedFilePath: string, call
     } else if (tool.archiveType === ArchiveType.TAR) {
         await extractTar(downloadedFilePath, callback);
     } else {
-        // This should never happen as all tools in staticToolDefintions have valid archive types
+        // This should never happen as built-in and manifest tool definitions have valid archive types
         // If this is reached, it indicates a programming error in tool metadata definition
         throw new Error(`Unsupported archive type: ${tool.archiveType}`);
     }
 };
 
+async function verifyDownload(tool: ToolMetadata, downloadedPath: string, toolDownloadUrl: string, expectedChecksum?: ChecksumEntry) {
+    if (tool.size !== undefined) {
+        const actualSize = (await fs.stat(downloadedPath)).size;
+        if (actualSize !== tool.size) {
+            throw new Error(
+                `Size verification failed for ${tool.name}: expected ${tool.size} bytes, ` +
+                `downloaded ${actualSize} bytes from ${toolDownloadUrl}`
+            );
+        }
+    }
+
+    // Security: Verify checksum of downloaded binary to prevent supply chain attacks
+    if (expectedChecksum) {
+        const algorithmName = checksumAlgorithmNames[expectedChecksum.algorithm];
+        core.info(`Verifying ${algorithmName} checksum of downloaded ${tool.name}...`);
+        const actualChecksum = await calculateChecksum(downloadedPath, expectedChecksum.algorithm);
+        
+        if (actualChecksum !== expectedChecksum.digest) {
+            throw new Error(
+                `SECURITY ERROR: ${algorithmName} checksum verification failed for ${tool.name}!\n` +
+                `Expected: ${expectedChecksum.digest}\n` +
+                `Actual:   ${actualChecksum}\n` +
+                `This indicates the downloaded file may have been tampered with or corrupted.\n` +
+                `Download URL: ${toolDownloadUrl}\n` +
+                `DO NOT proceed with installation. Please report this to DigiCert support.`
+            );
+        }
+        
+        core.info(`✓ Checksum verification passed for ${tool.name}`);
+        core.info(`  Expected: ${expectedChecksum.digest}`);
+        core.info(`  Actual:   ${actualChecksum}`);
+    }
+
+    // Security: The checksum file comes from the same host, only a signature proves the origin
+    await verifyToolSignature(tool.name, downloadedPath, toolDownloadUrl);
+};
+
 async function cachedSetup(tool: ToolMetadata) {
     var toolPath: string;
     core.info(`Looking for all installed and cached versions of ${tool.name}`)
     tc.findAllVersions(tool.name).forEach(rv => {
         core.info(`\tFound ${rv}`);
     });
-    const toolDownloadUrl = downloadUrl(tool);
-    var version = VERSION;
-    let expectedChecksum: string | undefined;
+    const toolDownloadUrls = downloadUrls(tool);
+    // A pinned tool-version identifies the cached tool better than the arbitrary cache-version
+    const fallbackVersion = actionConfig().toolVersion || actionConfig().cacheVersion;
+    var version = fallbackVersion;
+    let expectedChecksum: ChecksumEntry | undefined = tool.sha256 ?
+        { algorithm: "sha256", digest: tool.sha256.toLowerCase() } : undefined;
     
-    const useBinarySha256Checksum = core.getBooleanInput('use-binary-sha256-checksum', {required: false});
-    if (useBinarySha256Checksum) {
+    const useBinarySha256Checksum = actionConfig().useBinarySha256Checksum;
+    if (useBinarySha256Checksum && expectedChecksum) {
+        core.info(`Using sha256 checksum ${expectedChecksum.digest} from the tool manifest as version for ${tool.name}`);
+        version = `0.0.0-${expectedChecksum.digest}`;
+    } else if (useBinarySha256Checksum) {
         core.info(`Using sha256 checksum file for determining the version of ${tool.name}`);
-        const sha256ChecksumUrl = `${toolDownloadUrl}.sha256`;
-        version = await retryWithBackoff(
-            async () => await tc.downloadTool(sha256ChecksumUrl),
-            `Download checksum file for ${tool.name} from ${sha256ChecksumUrl}`,
-            { maxAttempts: 3, initialDelayMs: 1000 }
-        ).then(async rv => {
-            core.info(`Downloaded sha256 checksum file from ${sha256ChecksumUrl}`);
-            const content = await fs.readFile(rv, {encoding: 'utf-8'});
-            const checksum = content.split(' ')[0].trim().toLowerCase();
-            expectedChecksum = checksum; // Store for later verification
-            core.info(`Using sha256 checksum ${checksum} as version for ${tool.name}`);
-            return `0.0.0-${checksum}`;
-        }).catch(reason => {
-            core.warning(`Failed to download sha256 checksum file from ${sha256ChecksumUrl}, reason: ${reason}`);
-            core.warning(`Falling back to use cache-version: ${VERSION} as version for ${tool.name}`);
-            return VERSION;
+        // Every mirror is verified against the checksum file of the first mirror serving one
+        const checksumFile = await fetchFromMirrors(
+            toolDownloadUrls.map(it => `${it}.sha256`),
+            `Download checksum file for ${tool.name}`
+        ).catch(reason => {
+            core.warning(`Failed to download sha256 checksum file for ${tool.name}, reason: ${reason}`);
+            core.warning(`Falling back to use ${fallbackVersion} as version for ${tool.name}`);
+            return undefined;
         });
+        if (checksumFile) {
+            core.info(`Downloaded sha256 checksum file from ${checksumFile.location}`);
+            const content = await fs.readFile(checksumFile.fetchedPath, {encoding: 'utf-8'});
+            // A garbled checksum file must not silently turn into the cache version
+            try {
+                expectedChecksum = parseChecksumFile(content, tool.dlName);
+            } catch (error) {
+                throw new Error(`Invalid checksum file ${checksumFile.location}: ${(error as Error).message}`);
+            }
+            core.info(`Using ${expectedChecksum.algorithm} checksum ${expectedChecksum.digest} as version for ${tool.name}`);
+            version = `0.0.0-${expectedChecksum.digest}`;
+        }
     }
     core.info(`Required cached version of ${tool.name} for this run is ${version}`)
 
     toolPath = tc.find(tool.name, version);
-    var useCache = core.getBooleanInput('use-github-caching-service')
+    var useCache = actionConfig().useGithubCachingService
+    tool.cacheHit = useCache && !!toolPath;
+    tool.checksum = expectedChecksum?.digest;
+    tool.source = undefined;
     if (useCache && toolPath) {
         core.info(`${tool.name} found in cache @ ${toolPath}`);
+        if (tool.cacheHitSetup) {
+            await tool.cacheHitSetup(toolPath);
+        }
     } else {
         if (useCache) {
-            core.info(`${tool.name} NOT found in cache, downloading from ${toolDownloadUrl}`);
+            core.info(`${tool.name} NOT found in cache, downloading from ${toolDownloadUrls.join(', ')}`);
         } else {
-            core.info(`Caching is disabled, downloading ${tool.name} from ${toolDownloadUrl}`);
+            core.info(`Caching is disabled, downloading ${tool.name} from ${toolDownloadUrls.join(', ')}`);
         }
-        const downloadedPath = await retryWithBackoff(
-            async () => await tc.downloadTool(toolDownloadUrl),
-            `Download ${tool.name} from ${toolDownloadUrl}`,
-            { maxAttempts: 3, initialDelayMs: 1000 }
-        ).then(rv => {
-            core.info(`${tool.name} downloaded @ ${rv}`);
-            return rv;
-        });
-
-        // Security: Verify checksum of downloaded binary to prevent supply chain attacks
-        if (expectedChecksum) {
-            core.info(`Verifying SHA-256 checksum of downloaded ${tool.name}...`);
-            const actualChecksum = await calculateSHA256(downloadedPath);
-            
-            if (actualChecksum !== expectedChecksum) {
-                throw new Error(
-                    `SECURITY ERROR: SHA-256 checksum verification failed for ${tool.name}!\n` +
-                    `Expected: ${expectedChecksum}\n` +
-                    `Actual:   ${actualChecksum}\n` +
-                    `This indicates the downloaded file may have been tampered with or corrupted.\n` +
-                    `Download URL: ${toolDownloadUrl}\n` +
-                    `DO NOT proceed with installation. Please report this to DigiCert support.`
-                );
-            }
-            
-            core.info(`✓ Checksum verification passed for ${tool.name}`);
-            core.info(`  Expected: ${expectedChecksum}`);
-            core.info(`  Actual:   ${actualChecksum}`);
-        } else {
+        if (!expectedChecksum) {
             core.warning(
                 `Skipping checksum verification for ${tool.name} ` +
                 `(use-binary-sha256-checksum is disabled or checksum file unavailable). ` +
@@ -334,6 +490,17 @@ async function cachedSetup(tool: ToolMetadata) {
             );
         }
 
+        const { fetchedPath: downloadedPath, location } = await fetchFromMirrors(
+            toolDownloadUrls,
+            `Download ${tool.name}`,
+            async (downloadedPath, toolDownloadUrl) => {
+                core.info(`${tool.name} downloaded @ ${downloadedPath}`);
+                await verifyDownload(tool, downloadedPath, toolDownloadUrl, expectedChecksum);
+            }
+        );
+        tool.source = location;
+        core.info(`${tool.name} served by ${location}`);
+
         // Variable to capture the cached tool path from inside the callback
         let cachedToolPath: string;
         
@@ -357,6 +524,9 @@ async function cachedSetup(tool: ToolMetadata) {
         if (tool.executePermissionRequired) {
             await chmod(toolPath);
         }
+        if (tool.installSetup) {
+            tool.installSetup(toolPath, downloadedPath);
+        }
     }
 
     if (tool.createSymlink) {
@@ -384,36 +554,68 @@ async function cachedSetup(tool: ToolMetadata) {
     });
 };
 
-async function setupToolInternal(name: string) {
-    const tk = qulifiedToolName(name);
-    const tm = staticToolDefintions.get(tk)!;
+async function setupToolInternal(tk: string, tm: ToolMetadata) {
     core.info(`Setting up ${tk}`)
     const toolPath = await cachedSetup(tm).then(tp => {
         tm.toolPath = tm.toolType === ToolType.EXECUTABLE ? path.join(tp, tm.fName) : tp;
         return tm.toolPath;
     });
+    recordToolSetup({
+        name: tm.name,
+        platformKey: tk,
+        cacheHit: tm.cacheHit === true,
+        checksum: tm.checksum,
+        source: tm.source,
+        path: toolPath,
+    });
 
     if (tm.toolType === ToolType.EXECUTABLE && tm.versionFlag) {
         core.info(`Checking actual version of ${tm.name}`);
-        await exec.getExecOutput(toolPath, [tm.versionFlag])
-            .catch(reason => core.warning(`failed to check: ${reason}`))
+        const versionOutput = await exec.getExecOutput(toolPath, [tm.versionFlag])
+            .catch(reason => {
+                core.warning(`failed to check: ${reason}`);
+                return undefined;
+            });
+
+        // tool-version is the Software Trust Manager release, which is the version smctl reports
+        const toolVersion = actionConfig().toolVersion;
+        if (toolVersion && tm.name === SMCTL) {
+            const reportedVersion = parseReportedVersion(versionOutput?.stdout || '');
+            if (!reportedVersion || !versionMatches(toolVersion, reportedVersion)) {
+                throw new Error(
+                    `${tm.name} version mismatch: requested tool-version ${toolVersion} ` +
+                    `but ${tm.name} ${tm.versionFlag} reported ${reportedVersion || 'no version'}.`
+                );
+            }
+            core.info(`✓ ${tm.name} version ${reportedVersion} matches tool-version ${toolVersion}`);
+        }
     }
     return toolPath;
 };
 
 export async function setupTool(name: string) {
+    configureNetwork();
     const tk = qulifiedToolName(name);
-    const toolMetadata = staticToolDefintions.get(tk);
+    const definitions = await toolDefinitions();
+    const toolMetadata = definitions.get(tk);
     if (!toolMetadata) {
-        core.warning(`${tk} is not supported`);
-        return;
+        const supportedPlatforms = supportedPlatformsOf(definitions, name);
+        if (supportedPlatforms.length === 0) {
+            core.warning(`${tk} is not supported`);
+            return;
+        }
+        // A known tool without a build for this runner must not silently skip signing
+        throw new Error(
+            `${name} is not available for ${core.platform.platform}-${core.platform.arch}. ` +
+            `Supported platform/arch pairs: ${supportedPlatforms.join(', ')}`
+        );
     }
 
     const tm = toolMetadata!
-    const tryGithubCache = !isSelfHosted && cache.isFeatureAvailable() && core.getBooleanInput('use-github-caching-service');
+    const tryGithubCache = !isSelfHosted && cache.isFeatureAvailable() && actionConfig().useGithubCachingService;
     var cacheHit: string | undefined;
     const p = core.platform;
-    const cacheKey = `${name}-${core.getInput('cache-version')}-${p.platform}-${p.arch}`;
+    const cacheKey = `${name}-${actionConfig().toolVersion || actionConfig().cacheVersion}-${p.platform}-${p.arch}`;
     const toolCacheDir = process.env['RUNNER_TOOL_CACHE'];
     const cachePath = toolCacheDir ? path.join(toolCacheDir, tm.name) : undefined;
 
@@ -426,22 +628,25 @@ export async function setupTool(name: string) {
         })
     };
 
-    return await setupToolInternal(name).then(rv => {
+    return await setupToolInternal(tk, tm).then(rv => {
         if (tryGithubCache && cachePath) {
-            // If it's Github cache hit, then no files in System32 and SysWOW64 and no entry in registry,
-            // So do the cache hit activity here.
-            if (cacheHit && tm.cacheHitSetup) {
-                tm.cacheHitSetup!(rv);
-            }
             if (!cacheHit) {
                 core.info(`It was a cache miss for ${cacheKey}, saving it now`);
-                cache.saveCache([cachePath], cacheKey).then(rv => {
+                const saving: Promise<void> = cache.saveCache([cachePath], cacheKey).then(rv => {
                     core.info(`Cache saved successfully, cacheId is ${rv}`);
                 }).catch(error => {
                     core.warning(`Error in saving cache: ${error}`)
-                })
+                }).finally(() => {
+                    pendingCacheSaves.delete(saving);
+                });
+                pendingCacheSaves.add(saving);
             }
         };
         return rv;
     });
-};
\ No newline at end of file
+};
+
+/** Waits for the cache saves setupTool started in the background, they never fail */
+export async function waitForCacheSaves() {
+    await Promise.all(pendingCacheSaves);
+};
@@ -0,0 +1,132 @@
+import * as core from '@actions/core';
+import * as crypto from 'crypto';
+import * as fs from 'fs/promises';
+import { createReadStream } from 'fs';
+
+import { fetchToolFile } from './tool_source';
+import { actionConfig } from './action_config';
+
+/** Detached signature formats looked up next to every tool, in order of preference */
+export const SIGNATURE_EXTENSIONS = [".sig", ".bundle"] as const;
+
+/**
+ * Keys trusted for tool signatures: the tool-signing-public-key input (PEM content or path),
+ * e.g. the key of an internal mirror. The action doesn't ship DigiCert keys.
+ * Only RSA and ECDSA keys are accepted, they sign a SHA-256 digest that is hashed while streaming the tool.
+ */
+export async function trustedToolSigningKeys(): Promise<crypto.KeyObject[]> {
+    const input = actionConfig().toolSigningPublicKey;
+    if (!input) {
+        return [];
+    }
+    const pem = input.startsWith('-----BEGIN') ? input : await fs.readFile(input, { encoding: 'utf-8' });
+    var key: crypto.KeyObject;
+    try {
+        key = crypto.createPublicKey(pem);
+    } catch (error) {
+        throw new Error(`Invalid tool signing public key: ${error}`);
+    }
+    if (key.asymmetricKeyType !== 'rsa' && key.asymmetricKeyType !== 'ec') {
+        throw new Error(`Unsupported tool signing public key type ${key.asymmetricKeyType}, use an RSA or ECDSA key`);
+    }
+    return [key];
+};
+
+/**
+ * Decodes a detached signature. `.sig` files hold the base64 signature written by
+ * `cosign sign-blob --output-signature`, `.bundle` files the JSON of `cosign sign-blob --bundle`.
+ */
+export function parseDetachedSignature(content: string, extension: typeof SIGNATURE_EXTENSIONS[number]): Buffer {
+    var encoded = content.trim();
+    if (extension === ".bundle") {
+        var bundle: { base64Signature?: unknown };
+        try {
+            bundle = JSON.parse(content);
+        } catch (error) {
+            throw new Error(`Signature bundle is not valid JSON: ${error}`);
+        }
+        if (typeof bundle?.base64Signature !== 'string') {
+            throw new Error(`Signature bundle has no base64Signature`);
+        }
+        encoded = bundle.base64Signature;
+    }
+    const signature = Buffer.from(encoded, 'base64');
+    if (signature.length === 0) {
+        throw new Error(`Signature is empty`);
+    }
+    return signature;
+};
+
+/** Checks a SHA-256 signature over the file against any of the keys, reading the file as a stream */
+export async function verifyDetachedSignature(filePath: string, signature: Buffer, keys: crypto.KeyObject[]): Promise<boolean> {
+    const verifiers = keys.map(() => crypto.createVerify('sha256'));
+    for await (const chunk of createReadStream(filePath)) {
+        verifiers.forEach(it => it.update(chunk));
+    }
+    return verifiers.some((verifier, index) => {
+        try {
+            return verifier.verify(keys[index], signature);
+        } catch {
+            return false;
+        }
+    });
+};
+
+async function fetchSignature(location: string): Promise<Buffer | undefined> {
+    const reasons: string[] = [];
+    for (const extension of SIGNATURE_EXTENSIONS) {
+        const signatureLocation = `${location}${extension}`;
+        const fetchedPath = await fetchToolFile(signatureLocation).catch(reason => {
+            reasons.push(`${signatureLocation}: ${reason}`);
+            return undefined;
+        });
+        if (fetchedPath) {
+            core.info(`Downloaded detached signature from ${signatureLocation}`);
+            return parseDetachedSignature(await fs.readFile(fetchedPath, { encoding: 'utf-8' }), extension);
+        }
+    }
+    core.debug(`No detached signature found:\n  ${reasons.join('\n  ')}`);
+    return undefined;
+};
+
+/**
+ * Verifies the detached signature published next to a downloaded tool. A missing
+ * signature only fails when require-tool-signature is enabled, an invalid one always fails.
+ *
+ * @param toolName - Name of the tool for messages
+ * @param downloadedPath - Downloaded tool
+ * @param location - Location the tool was downloaded from, signatures are expected @ `${location}.sig` or `${location}.bundle`
+ * @throws Error if the signature is invalid, or missing while required
+ */
+export async function verifyToolSignature(toolName: string, downloadedPath: string, location: string) {
+    const required = actionConfig().requireToolSignature;
+    const keys = await trustedToolSigningKeys();
+    // require-tool-signature can't be set without a key, the config validation rejects it
+    if (keys.length === 0) {
+        core.warning(
+            `The signature of ${toolName} is not verified: tool-signing-public-key is not set and the action ` +
+            `ships no DigiCert tool signing key. ${toolName} is only checked against the checksum served by the same host.`
+        );
+        return;
+    }
+
+    const signature = await fetchSignature(location);
+    if (!signature) {
+        if (required) {
+            throw new Error(
+                `No detached signature found for ${toolName} @ ${location}` +
+                `{${SIGNATURE_EXTENSIONS.join(',')}} and require-tool-signature is enabled`
+            );
+        }
+        core.warning(`No detached signature published for ${toolName} @ ${location}, skipping signature verification`);
+        return;
+    }
+
+    if (!await verifyDetachedSignature(downloadedPath, signature, keys)) {
+        throw new Error(
+            `SECURITY ERROR: Detached signature verification failed for ${toolName} downloaded from ${location}. ` +
+            `The tool was not signed by a trusted key. DO NOT proceed with installation.`
+        );
+    }
+    core.info(`✓ Detached signature verification passed for ${toolName}`);
+};
@@ -0,0 +1,59 @@
+import * as tc from '@actions/tool-cache';
+import { HttpClient } from '@actions/http-client';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+import { describeDownloadFailure } from './network_config';
+import { createSecureTempDir } from './utils';
+import { TimeoutError, withTimeout } from './cancellation';
+import { actionConfig } from './action_config';
+
+/**
+ * Fetches a tool file from the CDN, or copies it from a local tools directory.
+ * Local files are copied into a new temporary directory so they can be extracted
+ * and cleaned up exactly like downloads without touching the mirror.
+ *
+ * @param location - https URL or local file path
+ * @returns Promise<string> - Path of the fetched file
+ * @throws Error explaining whether the proxy, TLS verification or the CDN failed, or that download-timeout expired
+ */
+export async function fetchToolFile(location: string): Promise<string> {
+    if (location.startsWith('https://')) {
+        // tc.downloadTool can't be aborted, a download that times out is abandoned and the main step exits without it
+        return await withTimeout(
+            async () => await tc.downloadTool(location),
+            actionConfig().downloadTimeoutMs,
+            `Downloading ${location}`
+        ).catch(async reason => {
+            // Keep the HTTP status and error code for retryWithBackoff to classify
+            const message = reason instanceof TimeoutError ? reason.message : describeDownloadFailure(location, reason);
+            const status = (reason as { httpStatusCode?: number })?.httpStatusCode;
+            const retryAfter = status === 429 || status === 503 ? await fetchRetryAfter(location) : undefined;
+            throw Object.assign(new Error(message, { cause: reason }),
+                retryAfter ? { headers: { 'retry-after': retryAfter } } : {});
+        });
+    }
+    const dest = path.join(await createSecureTempDir('tools-source-'), path.basename(location));
+    await fs.copyFile(location, dest);
+    return dest;
+};
+
+/**
+ * Asks the CDN again for the Retry-After header of a throttled download,
+ * as tc.downloadTool only reports the HTTP status of a failed download.
+ *
+ * @returns Promise<string | undefined> - Retry-After header, undefined if the CDN doesn't send one or can't be reached
+ */
+async function fetchRetryAfter(location: string): Promise<string | undefined> {
+    const client = new HttpClient('code-signing-software-trust-action', [], { socketTimeout: 10000 });
+    try {
+        const response = await client.head(location);
+        response.message.resume();
+        const header = response.message.headers['retry-after'];
+        return Array.isArray(header) ? header[0] : header;
+    } catch {
+        return undefined;
+    } finally {
+        client.dispose();
+    }
+};
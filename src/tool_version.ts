@@ -0,0 +1,49 @@
+const versionPattern = /^\d+(\.\d+){0,3}$/;
+
+/**
+ * Validates the tool-version input. Only dotted numeric versions are accepted
+ * since the version becomes part of the CDN download path.
+ *
+ * @returns string | undefined - The trimmed version, or undefined when no version is pinned
+ * @throws Error if the version is not in a dotted numeric format (e.g. 1.45.0)
+ */
+export function validateToolVersion(version: string): string | undefined {
+    const trimmed = version.trim();
+    if (!trimmed || trimmed === 'latest') {
+        return undefined;
+    }
+    if (!versionPattern.test(trimmed)) {
+        throw new Error(`Invalid tool-version "${version}". Expected a version such as 1.45.0 or "latest".`);
+    }
+    return trimmed;
+}
+
+/**
+ * Resolves the CDN location of a pinned tool version.
+ * A trailing `/latest` segment is replaced by the version, otherwise the version is appended.
+ *
+ * @example
+ * versionedCdnUrl('https://pki-downloads.digicert.com/stm/latest', '1.45.0')
+ * // => 'https://pki-downloads.digicert.com/stm/1.45.0'
+ */
+export function versionedCdnUrl(cdn: string, version: string): string {
+    const base = cdn.replace(/\/+$/, '');
+    return base.endsWith('/latest') ?
+        `${base.substring(0, base.length - '/latest'.length)}/${version}` :
+        `${base}/${version}`;
+}
+
+/** Extracts the first dotted numeric version from the output of a version flag (e.g. `smctl -v`) */
+export function parseReportedVersion(output: string): string | undefined {
+    return output.match(/\d+(?:\.\d+)+/)?.[0];
+}
+
+/**
+ * Checks a reported version against the requested one. Every component of the
+ * requested version must match, so 1.45 accepts 1.45.0 and 1.45.2 but not 1.4.5.
+ */
+export function versionMatches(requested: string, reported: string): boolean {
+    const actual = reported.split('.');
+    return requested.split('.').every((component, index) =>
+        actual[index] !== undefined && Number(component) === Number(actual[index]));
+}
@@ -4,6 +4,28 @@ import * as fs from 'fs/promises';
 import path from 'path';
 import { SMCTL } from './tool_setup';
 import { createSecureTempDir } from './utils';
+import { registerMsiInstall, registerWindowsLibraries } from './post_cleanup';
+
+/** The KSP and CSP DLLs in System32 and SysWOW64, copied by setupLibraries or installed by the smtools MSI */
+function systemLibraries(): string[] {
+    const system32 = `${process.env['SystemRoot']}\\System32`;
+    const sysWOW64 = `${process.env['SystemRoot']}\\SysWOW64`;
+    return [
+        path.join(system32, 'smksp.dll'),
+        path.join(sysWOW64, 'smksp.dll'),
+        path.join(system32, 'ssmcsp.dll'),
+        path.join(sysWOW64, 'ssmcsp.dll'),
+    ];
+};
+
+/**
+ * Registers the smtools MSI install, and the KSP/CSP registration that comes with it,
+ * for the post step to undo.
+ */
+export function registerInstalledLibraries(smtoolsPath: string, msiPath: string) {
+    registerWindowsLibraries(path.join(smtoolsPath, SMCTL), systemLibraries());
+    registerMsiInstall(msiPath);
+};
 
 export async function setupLibraries(smtoolsPath: string) {
     const cspRegistryCommands = `
@@ -129,6 +151,7 @@ export async function setupLibraries(smtoolsPath: string) {
 
         const system32 = `${process.env['SystemRoot']}\\System32`;
         const sysWOW64 = `${process.env['SystemRoot']}\\SysWOW64`;
+        registerWindowsLibraries(smctl, systemLibraries());
 
         await fs.copyFile(path.join(smtoolsPath, 'smksp-x64.dll'), path.join(system32, 'smksp.dll'));
         await fs.copyFile(path.join(smtoolsPath, 'smksp-x86.dll'), path.join(sysWOW64, 'smksp.dll'));
@@ -5,7 +5,8 @@ import path from 'path';
 
 import { archiveExtractCallback, randomFileName, randomTmpDir, rmDir } from './utils';
 
-async function uninstallExistingMsi(msiPath: string): Promise<boolean> {
+/** Uninstalls the product of an MSI file, if installed. Never throws, failures are only warned about */
+export async function uninstallExistingMsi(msiPath: string): Promise<boolean> {
     core.info(`Attempting to uninstall any existing installation using ${msiPath}`);
 
     // Use the MSI file itself to uninstall any existing installation
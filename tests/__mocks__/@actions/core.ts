@@ -92,6 +92,15 @@ export const getState = jest.fn((name: string): string => {
   return '';
 });
 
+// Mock job summary, every builder method returns the summary for chaining
+export const summary: any = {
+  addHeading: jest.fn((text: string, level?: number | string): any => summary),
+  addRaw: jest.fn((text: string, addEOL?: boolean): any => summary),
+  addTable: jest.fn((rows: any[]): any => summary),
+  addEOL: jest.fn((): any => summary),
+  write: jest.fn(async (options?: { overwrite?: boolean }): Promise<any> => summary),
+};
+
 // Mock platform object
 export const platform = {
   platform: process.platform,
@@ -128,5 +137,6 @@ export default {
   endGroup,
   saveState,
   getState,
+  summary,
   platform,
 };
@@ -144,7 +144,14 @@ export const downloadTool = jest.fn(async (url: string, dest?: string): Promise<
   mockCreatedTempDirs.add(tempDir);
   
   // Create empty file (or small mock content)
-  await fs.writeFile(downloadPath, 'Mock download content', 'utf-8');
+  // Checksum files hold the sha256sum line of the mock content, so downloads verify like on the CDN
+  if (safeFileName.endsWith('.sha256')) {
+    const crypto = require('crypto');
+    const digest = crypto.createHash('sha256').update('Mock download content').digest('hex');
+    await fs.writeFile(downloadPath, `${digest}  ${safeFileName.slice(0, -'.sha256'.length)}\n`, 'utf-8');
+  } else {
+    await fs.writeFile(downloadPath, 'Mock download content', 'utf-8');
+  }
   
   mockDownloadedFiles.set(url, downloadPath);
   return downloadPath;
@@ -7,6 +7,7 @@
 
 import { describe, test, expect, beforeEach } from '@jest/globals';
 import { setupTool, SMCTL, SMTOOLS, SMPKCS11, SMCTK, SCD } from '../../src/tool_setup';
+import { initActionConfig } from '../../src/action_config';
 import { 
     mockInputs, 
     mockOutputs, 
@@ -35,6 +36,7 @@ describe('tool_setup.ts - Mocked Integration Tests', () => {
         mockInputs.set('use-binary-sha256-checksum', 'false'); // Disable for mocked tests
         mockInputs.set('use-github-caching-service', 'false'); // Disable GitHub cache
         mockInputs.set('simple-signing-mode', 'false');
+        initActionConfig();
     });
 
     describe('Tool Name Constants Validation', () => {
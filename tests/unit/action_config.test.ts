@@ -0,0 +1,262 @@
+/**
+ * Unit tests for action_config.ts
+ * Tests reading, validating and caching the inputs of the action
+ */
+
+import { describe, test, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import * as core from '@actions/core';
+import { actionConfig, initActionConfig, loadActionConfig } from '../../src/action_config';
+import { mockInputs, resetMocks } from '../__mocks__/@actions/core';
+
+// Tests the real actionConfig instead of the per-call loading of tests/setup.ts
+jest.unmock('../../src/action_config');
+
+describe('action_config.ts', () => {
+    beforeEach(() => {
+        resetMocks();
+    });
+
+    describe('loadActionConfig', () => {
+        test('should apply the defaults', () => {
+            const config = loadActionConfig();
+
+            expect(config.digicertCdn).toEqual(['https://pki-downloads.digicert.com/stm/latest']);
+            expect(config.cacheVersion).toBe('0.0.0-0');
+            expect(config.toolVersion).toBeUndefined();
+            expect(config.toolsSourceDir).toBeUndefined();
+            expect(config.certificateExpiryDays).toBe(30);
+            expect(config.simpleSigningMode).toBe(false);
+            expect(config.failFast).toBe(true);
+            expect(config.timestamp).toBe(true);
+            expect(config.signingRules).toEqual([]);
+            expect(config.downloadTimeoutMs).toBe(600000);
+            expect(config.signTimeoutMs).toBeUndefined();
+        });
+
+        test('should read every digicert-cdn line', () => {
+            mockInputs.set('digicert-cdn', 'https://cdn1.example.com\nhttps://cdn2.example.com');
+
+            expect(loadActionConfig().digicertCdn).toEqual(['https://cdn1.example.com', 'https://cdn2.example.com']);
+        });
+
+        test('should split allowed-key-algorithms on commas and lines', () => {
+            mockInputs.set('allowed-key-algorithms', 'RSA, ECDSA\nEd25519');
+
+            expect(loadActionConfig().allowedKeyAlgorithms).toEqual(['RSA', 'ECDSA', 'Ed25519']);
+        });
+
+        describe('tools-source-dir', () => {
+            test('should resolve a relative directory', () => {
+                mockInputs.set('tools-source-dir', 'mirror/stm');
+
+                expect(loadActionConfig().toolsSourceDir).toBe(path.resolve('mirror/stm'));
+            });
+
+            test('should accept a file:// URL', () => {
+                const mirrorDir = path.join(os.tmpdir(), 'mirror');
+                mockInputs.set('tools-source-dir', pathToFileURL(mirrorDir).href);
+
+                expect(loadActionConfig().toolsSourceDir).toBe(mirrorDir);
+            });
+
+            test('should reject remote URLs', () => {
+                mockInputs.set('tools-source-dir', 'http://mirror.internal/stm');
+
+                expect(() => loadActionConfig()).toThrow('Expected a local directory or a file:// URL');
+            });
+        });
+
+        describe('deprecated inputs', () => {
+            test('should map diegest-alg to digest-alg with a warning', () => {
+                mockInputs.set('diegest-alg', 'SHA-384');
+
+                expect(loadActionConfig().digestAlg).toBe('SHA-384');
+                expect(core.warning).toHaveBeenCalledWith(expect.stringContaining('The diegest-alg input is deprecated'));
+            });
+
+            test('should prefer digest-alg over diegest-alg', () => {
+                mockInputs.set('diegest-alg', 'SHA-384');
+                mockInputs.set('digest-alg', 'SHA-512');
+
+                expect(loadActionConfig().digestAlg).toBe('SHA-512');
+                expect(core.warning).toHaveBeenCalledWith('Ignoring the deprecated diegest-alg input, digest-alg is set');
+            });
+        });
+
+        describe('conflicting inputs', () => {
+            test('should reject bulk-sign-mode without simple-signing-mode', () => {
+                mockInputs.set('bulk-sign-mode', 'true');
+
+                expect(() => loadActionConfig()).toThrow('bulk-sign-mode only works with simple-signing-mode: true');
+            });
+
+            test('should accept bulk-sign-mode with simple-signing-mode', () => {
+                mockInputs.set('bulk-sign-mode', 'true');
+                mockInputs.set('simple-signing-mode', 'true');
+
+                expect(loadActionConfig().bulkSignMode).toBe(true);
+            });
+
+            test('should reject dry-run without simple-signing-mode', () => {
+                mockInputs.set('dry-run', 'true');
+
+                expect(() => loadActionConfig()).toThrow('dry-run only works with simple-signing-mode: true');
+            });
+
+            test('should reject concurrency without simple-signing-mode', () => {
+                mockInputs.set('concurrency', '4');
+
+                expect(() => loadActionConfig()).toThrow('concurrency only works with simple-signing-mode: true');
+            });
+
+            test('should reject sign-retries with fail-fast', () => {
+                mockInputs.set('simple-signing-mode', 'true');
+                mockInputs.set('sign-retries', '2');
+
+                expect(() => loadActionConfig()).toThrow('sign-retries only works with fail-fast: false');
+            });
+
+            test('should accept sign-timeout without simple-signing-mode for the preflight healthcheck', () => {
+                mockInputs.set('sign-timeout', '900');
+
+                expect(loadActionConfig().signTimeoutMs).toBe(900000);
+            });
+
+            test('should reject client-cert-password without client-cert-b64', () => {
+                mockInputs.set('client-cert-password', 'secret');
+
+                expect(() => loadActionConfig()).toThrow('client-cert-password is set without client-cert-b64');
+            });
+
+            test('should require a tool signing key with require-tool-signature', () => {
+                mockInputs.set('require-tool-signature', 'true');
+
+                expect(() => loadActionConfig()).toThrow('require-tool-signature needs tool-signing-public-key');
+            });
+        });
+
+        describe('config-file', () => {
+            let workspace: string;
+
+            beforeEach(async () => {
+                workspace = await fs.mkdtemp(path.join(os.tmpdir(), 'action-config-test-'));
+                await fs.writeFile(path.join(workspace, 'signing.yml'), [
+                    'version: 1',
+                    'keypair-alias: release-key',
+                    'input: dist/**/*.exe',
+                    'timestamp: false',
+                    'rules:',
+                    '  - files: .jar',
+                    '    keypair-alias: java-key',
+                ].join('\n'));
+                mockInputs.set('simple-signing-mode', 'true');
+                mockInputs.set('config-file', path.join(workspace, 'signing.yml'));
+            });
+
+            afterEach(async () => {
+                await fs.rm(workspace, { recursive: true, force: true });
+            });
+
+            test('should read the inputs that are not given from the file', () => {
+                const config = loadActionConfig();
+
+                expect(config.keypairAlias).toBe('release-key');
+                expect(config.input).toEqual(['dist/**/*.exe']);
+                expect(config.timestamp).toBe(false);
+                expect(config.failFast).toBe(true);
+                expect(config.signingRules).toEqual([expect.objectContaining({ files: ['.jar'], keypairAlias: 'java-key' })]);
+            });
+
+            test('should let inputs override the file', () => {
+                mockInputs.set('keypair-alias', 'other-key');
+                mockInputs.set('timestamp', 'true');
+
+                const config = loadActionConfig();
+
+                expect(config.keypairAlias).toBe('other-key');
+                expect(config.timestamp).toBe(true);
+            });
+
+            test('should report the errors of the file with the other inputs', async () => {
+                await fs.writeFile(path.join(workspace, 'signing.yml'), 'version: 1\ntimestamp: maybe\n');
+                mockInputs.set('proxy-url', 'proxy.internal:3128');
+
+                expect(() => loadActionConfig()).toThrow(
+                    'Invalid action inputs:\n' +
+                    `  - Invalid signing configuration ${path.join(workspace, 'signing.yml')}:\n` +
+                    `    ${path.join(workspace, 'signing.yml')}:2:12: timestamp must be boolean\n` +
+                    '  - Invalid proxy-url "proxy.internal:3128". Expected an http:// or https:// URL.'
+                );
+            });
+
+            test('should not read the default file without simple-signing-mode', async () => {
+                const workspaceEnv = process.env['GITHUB_WORKSPACE'];
+                process.env['GITHUB_WORKSPACE'] = workspace;
+                try {
+                    await fs.mkdir(path.join(workspace, '.digicert'));
+                    await fs.writeFile(path.join(workspace, '.digicert', 'signing.yml'), 'version: 1\nbulk-sign-mode: true\nconcurrency: 4\n');
+                    mockInputs.delete('config-file');
+                    mockInputs.set('simple-signing-mode', 'false');
+
+                    const config = loadActionConfig();
+
+                    expect(config.bulkSignMode).toBe(false);
+                    expect(config.configFile).toBeUndefined();
+                } finally {
+                    if (workspaceEnv === undefined) {
+                        delete process.env['GITHUB_WORKSPACE'];
+                    } else {
+                        process.env['GITHUB_WORKSPACE'] = workspaceEnv;
+                    }
+                }
+            });
+
+            test('should reject config-file without simple-signing-mode', () => {
+                mockInputs.set('simple-signing-mode', 'false');
+
+                expect(() => loadActionConfig()).toThrow('config-file only works with simple-signing-mode: true');
+            });
+        });
+
+        test('should report a single invalid input as is', () => {
+            mockInputs.set('digicert-cdn', 'http://cdn.example.com');
+
+            expect(() => loadActionConfig()).toThrow(/^Invalid digicert-cdn URL: "http:\/\/cdn.example.com"/);
+        });
+
+        test('should report every invalid input in one error', () => {
+            mockInputs.set('digicert-cdn', 'http://cdn.example.com');
+            mockInputs.set('proxy-url', 'proxy.internal:3128');
+            mockInputs.set('certificate-expiry-days', 'soon');
+            mockInputs.set('verify-after-sign', 'true');
+
+            expect(() => loadActionConfig()).toThrow(
+                'Invalid action inputs:\n' +
+                '  - Invalid digicert-cdn URL: "http://cdn.example.com". The CDN URL must use HTTPS protocol for security. ' +
+                'HTTP or other protocols are not allowed to prevent man-in-the-middle attacks.\n' +
+                '  - Invalid proxy-url "proxy.internal:3128". Expected an http:// or https:// URL.\n' +
+                '  - Invalid certificate-expiry-days soon. Expected a whole number of days\n' +
+                '  - verify-after-sign only works with simple-signing-mode: true'
+            );
+        });
+    });
+
+    describe('actionConfig', () => {
+        test('should fail before initActionConfig', () => {
+            expect(() => actionConfig()).toThrow('The action config is read before initActionConfig loaded it');
+        });
+
+        test('should return the config loaded at startup', () => {
+            mockInputs.set('keypair-alias', 'key1');
+            const config = initActionConfig();
+
+            mockInputs.set('keypair-alias', 'key2');
+            expect(actionConfig()).toBe(config);
+            expect(actionConfig().keypairAlias).toBe('key1');
+        });
+    });
+});
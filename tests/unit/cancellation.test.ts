@@ -0,0 +1,111 @@
+/**
+ * Unit tests for cancellation.ts
+ * Tests timeouts of operations and processes, and cleanup when the job is cancelled
+ */
+
+import { describe, test, expect, beforeEach, jest } from '@jest/globals';
+import * as core from '@actions/core';
+import {
+    abandonedOperationCount,
+    cancel,
+    cancellationSignal,
+    execWithTimeout,
+    onCancel,
+    TimeoutError,
+    withTimeout
+} from '../../src/cancellation';
+import { isRetryableError } from '../../src/utils';
+import { resetMocks as resetCoreMocks } from '../__mocks__/@actions/core';
+
+describe('cancellation.ts', () => {
+    beforeEach(() => {
+        resetCoreMocks();
+    });
+
+    describe('withTimeout', () => {
+        test('should return the result of an operation finishing in time', async () => {
+            await expect(withTimeout(async () => 'done', 1000, 'Download')).resolves.toBe('done');
+        });
+
+        test('should reject with a retryable TimeoutError and abort the signal', async () => {
+            let signal: AbortSignal | undefined;
+            const operation = withTimeout(it => new Promise<void>(resolve => {
+                signal = it;
+                const timer = setTimeout(resolve, 1000);
+                it.addEventListener('abort', () => {
+                    clearTimeout(timer);
+                    resolve();
+                });
+            }), 20, 'Downloading https://cdn/smctl');
+
+            const error = await operation.catch(err => err);
+
+            expect(error).toBeInstanceOf(TimeoutError);
+            expect(error.message).toBe('Downloading https://cdn/smctl timed out after 0.02s');
+            expect(isRetryableError(new Error('Failed to download', { cause: error }))).toBe(true);
+            expect(signal?.aborted).toBe(true);
+        });
+
+        test('should count an operation that ignores the abort until it settles', async () => {
+            let finish: () => void = () => {};
+            const operation = withTimeout(() => new Promise<void>(resolve => {
+                finish = resolve;
+            }), 20, 'Download');
+
+            await expect(operation).rejects.toThrow(TimeoutError);
+            expect(abandonedOperationCount()).toBe(1);
+
+            finish();
+            await new Promise(resolve => setImmediate(resolve));
+            expect(abandonedOperationCount()).toBe(0);
+        });
+    });
+
+    describe('execWithTimeout', () => {
+        test('should capture the output and exit code', async () => {
+            const output = await execWithTimeout('/bin/sh', ['-c', 'echo signed; exit 3'], 5000, { ignoreReturnCode: true });
+
+            expect(output).toEqual({ exitCode: 3, stdout: 'signed\n', stderr: '' });
+        });
+
+        test('should not log the command and output when silent', async () => {
+            const output = await execWithTimeout('/bin/sh', ['-c', 'echo secret'], 5000, { silent: true });
+
+            expect(output.stdout).toBe('secret\n');
+            expect(core.info).not.toHaveBeenCalled();
+        });
+
+        test('should fail on a non-zero exit code unless ignored', async () => {
+            await expect(execWithTimeout('/bin/sh', ['-c', 'exit 2'], 5000)).rejects.toThrow("failed with exit code 2");
+        });
+
+        test('should kill a process that runs too long', async () => {
+            const started = Date.now();
+
+            // exec replaces the shell, so killing it doesn't leave a sleep holding the output pipe open
+            await expect(execWithTimeout('/bin/sh', ['-c', 'exec sleep 10'], 200)).rejects.toThrow('/bin/sh -c timed out after 0.2s');
+            expect(Date.now() - started).toBeLessThan(5000);
+        });
+    });
+
+    // Cancelling aborts the signal of the module for good, so this runs last
+    describe('cancel', () => {
+        test('should abort the signal and run the cleanup tasks', async () => {
+            const detach = jest.fn(async () => {});
+            const failing = jest.fn(async () => {
+                throw new Error('hdiutil: detach failed');
+            });
+            const unregistered = jest.fn(async () => {});
+            onCancel(failing);
+            onCancel(detach);
+            onCancel(unregistered)();
+
+            await cancel('SIGTERM');
+
+            expect(cancellationSignal().aborted).toBe(true);
+            expect(detach).toHaveBeenCalled();
+            expect(unregistered).not.toHaveBeenCalled();
+            expect(core.warning).toHaveBeenCalledWith('Cleanup after SIGTERM failed: Error: hdiutil: detach failed');
+        });
+    });
+});
@@ -0,0 +1,115 @@
+/**
+ * Unit tests for certificate_discovery.ts
+ * Tests the certificate outputs and the expiry check of keypair-alias
+ */
+
+import { describe, test, expect, beforeEach, jest } from '@jest/globals';
+import * as core from '@actions/core';
+import { checkExpiry, discoverCertificate } from '../../src/certificate_discovery';
+import { initActionConfig } from '../../src/action_config';
+import { mockInputs, mockOutputs, resetMocks as resetCoreMocks } from '../__mocks__/@actions/core';
+import { getExecOutput, resetMocks as resetExecMocks } from '../__mocks__/@actions/exec';
+
+const mockedExec = getExecOutput as jest.Mock<any>;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function keypairOutput(validTo: Date): string {
+    return [
+        'Alias: key1',
+        'Key Type: ECDSA',
+        'Certificate Subject: CN=Example Corp',
+        'Certificate Issuer: CN=Example CA',
+        'Valid From: 2026-01-01T00:00:00.000Z',
+        `Valid To: ${validTo.toISOString()}`,
+        'Certificate Fingerprint: AB:CD:EF',
+    ].join('\n');
+}
+
+describe('certificate_discovery.ts', () => {
+    beforeEach(() => {
+        resetCoreMocks();
+        resetExecMocks();
+        mockInputs.set('keypair-alias', 'key1');
+        initActionConfig();
+    });
+
+    describe('checkExpiry', () => {
+        const now = new Date('2026-06-01T00:00:00Z');
+
+        test('should accept a certificate valid for long enough', () => {
+            expect(checkExpiry({ validTo: new Date(now.getTime() + 40 * DAY_MS) }, 30, now)).toBeUndefined();
+        });
+
+        test('should flag a certificate expiring within the days', () => {
+            expect(checkExpiry({ subject: 'CN=Example', validTo: new Date(now.getTime() + 10 * DAY_MS) }, 30, now))
+                .toBe('The certificate of CN=Example expires in 10 day(s), on 2026-06-11T00:00:00.000Z');
+        });
+
+        test('should flag an expired certificate', () => {
+            expect(checkExpiry({ validTo: new Date(now.getTime() - DAY_MS) }, 0, now)).toContain('expired on 2026-05-31');
+        });
+    });
+
+    describe('discoverCertificate', () => {
+        test('should skip without keypair-alias', async () => {
+            mockInputs.delete('keypair-alias');
+            initActionConfig();
+
+            expect(await discoverCertificate('/smctl')).toBeUndefined();
+            expect(mockedExec).not.toHaveBeenCalled();
+        });
+
+        test('should set the certificate outputs', async () => {
+            const validTo = new Date(Date.now() + 365 * DAY_MS);
+            mockedExec.mockResolvedValue({ exitCode: 0, stdout: keypairOutput(validTo), stderr: '' });
+
+            await discoverCertificate('/smctl');
+
+            expect(mockOutputs.get('certificate-fingerprint')).toBe('abcdef');
+            expect(mockOutputs.get('certificate-subject')).toBe('CN=Example Corp');
+            expect(mockOutputs.get('certificate-issuer')).toBe('CN=Example CA');
+            expect(mockOutputs.get('certificate-valid-from')).toBe('2026-01-01T00:00:00.000Z');
+            expect(mockOutputs.get('certificate-valid-to')).toBe(validTo.toISOString());
+            expect(mockOutputs.get('key-algorithm')).toBe('ECDSA');
+            expect(core.warning).not.toHaveBeenCalled();
+        });
+
+        test('should warn when the certificate expires soon', async () => {
+            mockedExec.mockResolvedValue({ exitCode: 0, stdout: keypairOutput(new Date(Date.now() + 5.5 * DAY_MS)), stderr: '' });
+
+            await discoverCertificate('/smctl');
+
+            expect(core.warning).toHaveBeenCalledWith(expect.stringContaining('expires in 5 day(s)'));
+        });
+
+        test('should fail when the certificate expires soon with fail-on-certificate-expiry', async () => {
+            mockInputs.set('certificate-expiry-days', '90');
+            mockInputs.set('fail-on-certificate-expiry', 'true');
+            initActionConfig();
+            mockedExec.mockResolvedValue({ exitCode: 0, stdout: keypairOutput(new Date(Date.now() + 60.5 * DAY_MS)), stderr: '' });
+
+            await expect(discoverCertificate('/smctl')).rejects.toThrow('expires in 60 day(s)');
+        });
+
+        test('should only warn when the lookup fails', async () => {
+            mockedExec.mockResolvedValue({ exitCode: 1, stdout: '', stderr: 'Keypair not found' });
+
+            expect(await discoverCertificate('/smctl')).toBeUndefined();
+            expect(core.warning).toHaveBeenCalledWith(expect.stringContaining('Unable to look up the certificate of keypair key1'));
+        });
+
+        test('should fail when the lookup fails with fail-on-certificate-expiry', async () => {
+            mockInputs.set('fail-on-certificate-expiry', 'true');
+            initActionConfig();
+            mockedExec.mockResolvedValue({ exitCode: 1, stdout: '', stderr: 'Keypair not found' });
+
+            await expect(discoverCertificate('/smctl')).rejects.toThrow('Unable to check the certificate expiry of keypair key1');
+        });
+
+        test('should reject an invalid certificate-expiry-days', () => {
+            mockInputs.set('certificate-expiry-days', 'soon');
+
+            expect(() => initActionConfig()).toThrow('Invalid certificate-expiry-days soon');
+        });
+    });
+});
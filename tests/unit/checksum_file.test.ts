@@ -0,0 +1,64 @@
+/**
+ * Unit tests for checksum_file.ts
+ * Tests parsing of sha256sum / shasum checksum files
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { parseChecksumFile } from '../../src/checksum_file';
+
+const sha256 = 'a'.repeat(64);
+const sha384 = 'b'.repeat(96);
+const sha512 = 'C'.repeat(128);
+
+describe('checksum_file.ts', () => {
+    test('should parse a single sha256sum line', () => {
+        expect(parseChecksumFile(`${sha256}  smctl\n`, 'smctl')).toEqual({
+            algorithm: 'sha256', digest: sha256, fileName: 'smctl'
+        });
+    });
+
+    test('should accept a bare digest', () => {
+        expect(parseChecksumFile(sha256, 'smctl')).toEqual({ algorithm: 'sha256', digest: sha256, fileName: undefined });
+    });
+
+    test('should pick the entry of the file from a multi-line file', () => {
+        const content = [
+            '# checksums of the Software Trust Manager tools',
+            `${sha256}  smctl`,
+            `${sha512} *dist/smtools-windows-x64.msi`,
+            `${sha384}  smtools-linux-x64.tar.gz`,
+        ].join('\r\n');
+
+        expect(parseChecksumFile(content, 'smtools-windows-x64.msi')).toEqual({
+            algorithm: 'sha512', digest: sha512.toLowerCase(), fileName: 'dist/smtools-windows-x64.msi'
+        });
+        expect(parseChecksumFile(content, 'smtools-linux-x64.tar.gz').algorithm).toBe('sha384');
+    });
+
+    test('should parse shasum --tag lines', () => {
+        expect(parseChecksumFile(`SHA512 (smctl) = ${sha512}`, 'smctl')).toEqual({
+            algorithm: 'sha512', digest: sha512.toLowerCase(), fileName: 'smctl'
+        });
+    });
+
+    test('should reject a single entry for another file name', () => {
+        expect(() => parseChecksumFile(`${sha256}  smctl-1.45.0`, 'smctl')).toThrow(
+            'Checksum file has no checksum for smctl, found smctl-1.45.0'
+        );
+    });
+
+    test('should reject a file without an entry for the file', () => {
+        expect(() => parseChecksumFile(`${sha256}  smctk\n${sha256}  ssm-scd`, 'smctl')).toThrow(
+            'Checksum file has no checksum for smctl, found smctk, ssm-scd'
+        );
+    });
+
+    test.each([
+        ['empty files', '', 'no checksums found'],
+        ['HTML error pages', '<html><body>Not Found</body></html>', 'line 1 "<html><body>Not Found</body></html>"'],
+        ['truncated digests', `${sha256.substring(1)}  smctl`, "63 hex digits don't make"],
+        ['mismatched tags', `SHA256 (smctl) = ${sha512}`, "128 hex digits don't make a sha256 digest"],
+    ])('should reject %s', (_, content, message) => {
+        expect(() => parseChecksumFile(content, 'smctl')).toThrow(message);
+    });
+});
@@ -0,0 +1,101 @@
+/**
+ * Unit tests for client_certificate.ts
+ * Tests decoding, validation and export of the client-cert-b64 input
+ */
+
+import { describe, test, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as core from '@actions/core';
+import { mockInputs, resetMocks } from '../__mocks__/@actions/core';
+import { setupClientCertificate } from '../../src/client_certificate';
+import { initActionConfig } from '../../src/action_config';
+
+// Self-signed EC certificate and key, exported with `openssl pkcs12 -export -passout pass:secret`
+const certificateLines = [
+    'MIIEDAIBAzCCA8IGCSqGSIb3DQEHAaCCA7MEggOvMIIDqzCCAmIGCSqGSIb3DQEHBqCCAlMwggJP',
+    'AgEAMIICSAYJKoZIhvcNAQcBMFcGCSqGSIb3DQEFDTBKMCkGCSqGSIb3DQEFDDAcBAjdxf5A2QPA',
+    '1wICCAAwDAYIKoZIhvcNAgkFADAdBglghkgBZQMEASoEEDzeUnJ89r66Ndv7PkNq7CCAggHgOnO+',
+    '2utcZDARKCtgHnDGrlNazMW2EuneBOI/sRZPof2MwcxyQiPNYNfup+pWKKUVOyxh1sUwZbro/XQ2',
+    'Id5J9Z0JgZHV+qcSposlF6YPRJc410I6IkYE23J2K2OL3um3zxMXh/xVWpjfnz/C8wqg0cP0YzPk',
+    'OjHnPhyf+0uoTOAe1xlmK9O4VVouhOMy/0KoKl5C1Dw3VfAzKxb5B/ij4+EL1MRJGzSqXrXfDsqh',
+    '/3BpTFko7mCP5VzY6o1Zl9SfHs1fIK5qzih9f6VazgnC/rsKa95RP/JVwb7Y6TIMpSm5s4bnhW5/',
+    'f0p8bMRcUuviNtBoVpd1vXo+zTCBM4Dhleg4ei2NsKAazPchzwq6mzVdJUgLaTjkOBHMeF5PPXnO',
+    'u5pgg4NQCz7+nurqBiP3qTBtVbeHiN7/f6aKiiZpWTGuusoqtRmiYiSUSDgQGP/1+iz/Y+7gmH/P',
+    'BLrLspKGVfdEwpf1VMTcrSCL5VPjTYCrnZjrmU+85mmZZ+xH4laZDZb6X4nLKUnOVx8iWLtA1MP4',
+    'kWoODwdYwi/Owc1sjorZGaQ7YXuYiTHm8Mhg1iGWTmb53MwGYZRoWxE828DX+/0cYx8BpdYY/5Qh',
+    'lNuhbgFTLXIUEAqaXXf4y972dvU+MIIBQQYJKoZIhvcNAQcBoIIBMgSCAS4wggEqMIIBJgYLKoZI',
+    'hvcNAQwKAQKgge8wgewwVwYJKoZIhvcNAQUNMEowKQYJKoZIhvcNAQUMMBwECCRqlzmOU94/AgII',
+    'ADAMBggqhkiG9w0CCQUAMB0GCWCGSAFlAwQBKgQQIMN9gUBCSgPbOimwKUbRwwSBkLhlvXN8vqOl',
+    'Cjvo6XDeETmdYEiFKNI7yLOufBafQKe4nHXKZXBy6xj6ZHm/7ykFbpBQfe+CqxU05d0BK9NXMSgZ',
+    'vYPpUCeH7XrND5pECKuk1QgFOiWRB4KMDCrg0kuDXHsGN8REZSbELK9jxkil1U7EdD3mGZtd51DL',
+    'bxOLrb7nIimPchPauKUX3r8L/N1gUDElMCMGCSqGSIb3DQEJFTEWBBRd6p7vH0UDihVx5PDZpiJJ',
+    'UE8KQzBBMDEwDQYJYIZIAWUDBAIBBQAEIDKcS4cObR7fjvkhZnc8jtEZHlYPqmV1Fj5WNFrBMFcJ',
+    'BAjNy6Bm+2Y2swICCAA=',
+];
+const certificateB64 = certificateLines.join('');
+
+describe('client_certificate.ts', () => {
+    const writtenFiles: string[] = [];
+
+    beforeEach(() => {
+        resetMocks();
+        jest.clearAllMocks();
+        initActionConfig();
+    });
+
+    afterEach(async () => {
+        for (const file of writtenFiles.splice(0)) {
+            await fs.rm(path.dirname(file), { recursive: true, force: true });
+        }
+    });
+
+    test('should do nothing without client-cert-b64', async () => {
+        expect(await setupClientCertificate()).toBeUndefined();
+        expect(core.exportVariable).not.toHaveBeenCalled();
+    });
+
+    test('should write the certificate to a private file and export it', async () => {
+        mockInputs.set('client-cert-b64', certificateB64);
+        mockInputs.set('client-cert-password', 'secret');
+        initActionConfig();
+
+        const certificatePath = (await setupClientCertificate())!;
+        writtenFiles.push(certificatePath);
+
+        expect(await fs.readFile(certificatePath)).toEqual(Buffer.from(certificateB64, 'base64'));
+        if (process.platform !== 'win32') {
+            expect((await fs.stat(certificatePath)).mode & 0o777).toBe(0o600);
+        }
+        expect(core.exportVariable).toHaveBeenCalledWith('SM_CLIENT_CERT_FILE', certificatePath);
+        expect(core.exportVariable).toHaveBeenCalledWith('SM_CLIENT_CERT_PASSWORD', 'secret');
+        expect(core.setSecret).toHaveBeenCalledWith(certificateB64);
+        expect(core.setSecret).toHaveBeenCalledWith('secret');
+        expect(core.saveState).toHaveBeenCalledWith('cleanupFiles', JSON.stringify([certificatePath]));
+    });
+
+    test('should accept base64 wrapped over several lines and mask every line', async () => {
+        mockInputs.set('client-cert-b64', certificateLines.join('\n'));
+        mockInputs.set('client-cert-password', 'secret');
+        initActionConfig();
+
+        const certificatePath = (await setupClientCertificate())!;
+        writtenFiles.push(certificatePath);
+
+        expect(await fs.readFile(certificatePath)).toEqual(Buffer.from(certificateB64, 'base64'));
+        certificateLines.forEach(line => expect(core.setSecret).toHaveBeenCalledWith(line));
+    });
+
+    test.each([
+        ['a wrong password', certificateB64, 'wrong', "the client certificate doesn't open with the password"],
+        ['data that is not base64', 'not base64!', 'secret', 'the value is not base64 encoded'],
+        ['data that is not PKCS#12', Buffer.from('not a certificate').toString('base64'), 'secret', 'the client certificate is not a readable PKCS#12 file'],
+    ])('should reject %s', async (_, certificate, password, message) => {
+        mockInputs.set('client-cert-b64', certificate);
+        mockInputs.set('client-cert-password', password);
+        initActionConfig();
+
+        await expect(setupClientCertificate()).rejects.toThrow(message);
+        expect(core.exportVariable).not.toHaveBeenCalled();
+    });
+});
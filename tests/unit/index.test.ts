@@ -6,7 +6,10 @@
 import { describe, test, expect, beforeEach, jest } from '@jest/globals';
 import * as core from '@actions/core';
 import * as toolSetup from '../../src/tool_setup';
+import * as smctlSigning from '../../src/smctl_signing';
+import * as signatureVerification from '../../src/signature_verification';
 import { main } from '../../src/index';
+import { mockInputs } from '../__mocks__/@actions/core';
 
 // Mock @actions/core
 jest.mock('@actions/core');
@@ -32,10 +35,16 @@ jest.mock('../../src/smctl_signing', () => ({
     simplifiedSign: jest.fn()
 }));
 
+// Mock signature_verification module
+jest.mock('../../src/signature_verification', () => ({
+    verifySignatures: jest.fn()
+}));
+
 describe('index.ts - Main Entry Point', () => {
     
     beforeEach(() => {
         jest.clearAllMocks();
+        mockInputs.delete('verify-after-sign');
         
         // Default input values
         mockedCore.getBooleanInput.mockImplementation((name: string) => {
@@ -249,5 +258,36 @@ describe('index.ts - Main Entry Point', () => {
             expect(toolSetup.setupTool).toHaveBeenCalledTimes(1);
             expect(toolSetup.setupTool).toHaveBeenCalledWith('smctl');
         });
+
+        test('should not verify signatures unless verify-after-sign is set', async () => {
+            (smctlSigning.simplifiedSign as any).mockResolvedValue({ keypairAlias: 'key', files: [] });
+
+            await main();
+
+            expect(signatureVerification.verifySignatures).not.toHaveBeenCalled();
+        });
+
+        test('should verify signatures with the installed smctl when verify-after-sign is set', async () => {
+            const report = { keypairAlias: 'key', files: [] };
+            (smctlSigning.simplifiedSign as any).mockResolvedValue(report);
+            mockInputs.set('verify-after-sign', 'true');
+            mockedCore.getBooleanInput.mockImplementation((name: string) =>
+                name === 'simple-signing-mode' || name === 'verify-after-sign');
+
+            await main();
+
+            expect(signatureVerification.verifySignatures).toHaveBeenCalledWith(report, '/mock/path/to/tool');
+        });
+
+        test('should not verify when signing was not attempted', async () => {
+            (smctlSigning.simplifiedSign as any).mockResolvedValue(undefined);
+            mockInputs.set('verify-after-sign', 'true');
+            mockedCore.getBooleanInput.mockImplementation((name: string) =>
+                name === 'simple-signing-mode' || name === 'verify-after-sign');
+
+            await main();
+
+            expect(signatureVerification.verifySignatures).not.toHaveBeenCalled();
+        });
     });
 });
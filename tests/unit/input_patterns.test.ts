@@ -0,0 +1,194 @@
+/**
+ * Unit tests for input_patterns.ts
+ * Tests expansion of paths and glob patterns used as the signing input
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from '@jest/globals';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import {
+    expandDirectories,
+    expandInputFiles,
+    expandInputPatterns,
+    isExcludePattern,
+    isGlobPattern,
+    resolveSigningInputs
+} from '../../src/input_patterns';
+
+describe('input_patterns.ts', () => {
+    let tempDir: string;
+
+    beforeEach(async () => {
+        tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'input-patterns-test-'));
+        await fs.mkdir(path.join(tempDir, 'dist', 'x64'), { recursive: true });
+        await fs.mkdir(path.join(tempDir, 'out'), { recursive: true });
+        await fs.writeFile(path.join(tempDir, 'dist', 'app.exe'), 'exe');
+        await fs.writeFile(path.join(tempDir, 'dist', 'x64', 'lib.dll'), 'dll');
+        await fs.writeFile(path.join(tempDir, 'dist', 'x64', 'test-lib.dll'), 'dll');
+        await fs.writeFile(path.join(tempDir, 'out', 'setup.msi'), 'msi');
+    });
+
+    afterEach(async () => {
+        await fs.rm(tempDir, { recursive: true, force: true });
+    });
+
+    describe('isGlobPattern / isExcludePattern', () => {
+        test('should detect glob characters', () => {
+            expect(isGlobPattern('dist/*.exe')).toBe(true);
+            expect(isGlobPattern('dist/**')).toBe(true);
+            expect(isGlobPattern('dist/app?.exe')).toBe(true);
+            expect(isGlobPattern('dist/[ab].exe')).toBe(true);
+            expect(isGlobPattern('!dist/test.dll')).toBe(true);
+        });
+
+        test('should treat plain paths as non-glob', () => {
+            expect(isGlobPattern('dist/app.exe')).toBe(false);
+            expect(isGlobPattern('C:\\Program Files\\MyApp\\app.exe')).toBe(false);
+            expect(isExcludePattern('dist/app.exe')).toBe(false);
+        });
+    });
+
+    describe('expandInputPatterns', () => {
+        test('should expand recursive glob patterns to files', async () => {
+            const rv = await expandInputPatterns([`${tempDir}/dist/**/*.dll`]);
+
+            expect(rv.sort()).toEqual([
+                path.join(tempDir, 'dist', 'x64', 'lib.dll'),
+                path.join(tempDir, 'dist', 'x64', 'test-lib.dll'),
+            ]);
+        });
+
+        test('should apply exclude patterns', async () => {
+            const rv = await expandInputPatterns([
+                `${tempDir}/dist/**/*.dll`,
+                `!${tempDir}/dist/**/test-*.dll`,
+            ]);
+
+            expect(rv).toEqual([path.join(tempDir, 'dist', 'x64', 'lib.dll')]);
+        });
+
+        test('should apply exclude patterns to the files of a plain directory', async () => {
+            await fs.writeFile(path.join(tempDir, 'dist', 'README.txt'), 'txt');
+
+            const rv = await expandInputPatterns([
+                path.join(tempDir, 'dist'),
+                `!${tempDir}/dist/**/test-*.dll`,
+            ]);
+
+            expect(rv.sort()).toEqual([
+                path.join(tempDir, 'dist', 'app.exe'),
+                path.join(tempDir, 'dist', 'x64', 'lib.dll'),
+            ]);
+        });
+
+        test('should apply exclude patterns to plain file paths', async () => {
+            const rv = await expandInputPatterns([
+                path.join(tempDir, 'dist', 'app.exe'),
+                path.join(tempDir, 'dist', 'x64', 'test-lib.dll'),
+                `!${tempDir}/dist/**/test-*.dll`,
+            ]);
+
+            expect(rv).toEqual([path.join(tempDir, 'dist', 'app.exe')]);
+        });
+
+        test('should combine multiple paths and remove duplicates', async () => {
+            const rv = await expandInputPatterns([
+                `${tempDir}/dist/*.exe`,
+                path.join(tempDir, 'dist', 'app.exe'),
+                path.join(tempDir, 'out'),
+            ]);
+
+            expect(rv).toEqual([
+                path.join(tempDir, 'dist', 'app.exe'),
+                path.join(tempDir, 'out'),
+            ]);
+        });
+
+        test('should fail listing every pattern that matched nothing', async () => {
+            await expect(expandInputPatterns([
+                `${tempDir}/dist/*.exe`,
+                `${tempDir}/dist/*.jar`,
+                path.join(tempDir, 'missing.exe'),
+            ])).rejects.toThrow(`${tempDir}/dist/*.jar, ${path.join(tempDir, 'missing.exe')}`);
+        });
+
+        test('should fail when a pattern only matches excluded files', async () => {
+            await expect(expandInputPatterns([
+                `${tempDir}/dist/x64/test-*.dll`,
+                `!${tempDir}/dist/**/test-*.dll`,
+            ])).rejects.toThrow('matched no files');
+        });
+
+        test('should fail when only exclude patterns are given', async () => {
+            await expect(expandInputPatterns([`!${tempDir}/dist/*.exe`]))
+                .rejects.toThrow('only exclude patterns');
+        });
+    });
+
+    describe('resolveSigningInputs', () => {
+        test('should pass a single plain path through untouched', async () => {
+            const rv = await resolveSigningInputs(['./does/not/exist.exe']);
+
+            expect(rv).toEqual(['./does/not/exist.exe']);
+        });
+
+        test('should expand multiple entries', async () => {
+            const rv = await resolveSigningInputs([
+                path.join(tempDir, 'out', 'setup.msi'),
+                `${tempDir}/dist/*.exe`,
+            ]);
+
+            expect(rv).toEqual([
+                path.join(tempDir, 'out', 'setup.msi'),
+                path.join(tempDir, 'dist', 'app.exe'),
+            ]);
+        });
+    });
+
+    describe('expandInputFiles', () => {
+        test('should replace directories with the files they contain', async () => {
+            const rv = await expandInputFiles([path.join(tempDir, 'dist'), `${tempDir}/out/*.msi`]);
+
+            expect(rv.sort()).toEqual([
+                path.join(tempDir, 'dist', 'app.exe'),
+                path.join(tempDir, 'dist', 'x64', 'lib.dll'),
+                path.join(tempDir, 'dist', 'x64', 'test-lib.dll'),
+                path.join(tempDir, 'out', 'setup.msi'),
+            ]);
+        });
+
+        test('should skip files that are not signable unless named explicitly', async () => {
+            await fs.writeFile(path.join(tempDir, 'dist', 'README.txt'), 'txt');
+            await fs.writeFile(path.join(tempDir, 'dist', 'x64', 'lib.dll.map'), 'map');
+            await fs.writeFile(path.join(tempDir, 'out', 'notes.json'), '{}');
+
+            const rv = await expandInputFiles([path.join(tempDir, 'dist'), `${tempDir}/out/*`, path.join(tempDir, 'out', 'notes.json')]);
+
+            expect(rv.sort()).toEqual([
+                path.join(tempDir, 'dist', 'app.exe'),
+                path.join(tempDir, 'dist', 'x64', 'lib.dll'),
+                path.join(tempDir, 'dist', 'x64', 'test-lib.dll'),
+                path.join(tempDir, 'out', 'notes.json'),
+                path.join(tempDir, 'out', 'setup.msi'),
+            ]);
+        });
+    });
+
+    describe('expandDirectories', () => {
+        test('should keep paths with glob characters literal and expand directories', async () => {
+            const literal = path.join(tempDir, 'out', 'app[x64].exe');
+            await fs.writeFile(literal, 'exe');
+            await fs.writeFile(path.join(tempDir, 'dist', 'README.txt'), 'txt');
+
+            const rv = await expandDirectories([literal, path.join(tempDir, 'dist')]);
+
+            expect(rv.sort()).toEqual([
+                path.join(tempDir, 'dist', 'app.exe'),
+                path.join(tempDir, 'dist', 'x64', 'lib.dll'),
+                path.join(tempDir, 'dist', 'x64', 'test-lib.dll'),
+                literal,
+            ]);
+        });
+    });
+});
@@ -0,0 +1,100 @@
+/**
+ * Unit tests for job_summary.ts
+ * Tests the GitHub job summary with installed tools and signing results
+ */
+
+import { describe, test, expect, beforeEach, jest } from '@jest/globals';
+import * as core from '@actions/core';
+import {
+    recordSigningReport,
+    recordToolSetup,
+    resetJobSummary,
+    writeJobSummary
+} from '../../src/job_summary';
+import { SigningStatus } from '../../src/signing_report';
+import { resetMocks as resetCoreMocks, summary } from '../__mocks__/@actions/core';
+
+describe('job_summary.ts', () => {
+    beforeEach(() => {
+        resetCoreMocks();
+        resetJobSummary();
+    });
+
+    test('should not write a summary when nothing was recorded', async () => {
+        await writeJobSummary();
+
+        expect(summary.write).not.toHaveBeenCalled();
+    });
+
+    test('should write a table of installed tools', async () => {
+        recordToolSetup({
+            name: 'smctl',
+            platformKey: 'smctl-linux-x64',
+            cacheHit: true,
+            checksum: 'abc123',
+            path: '/opt/hostedtoolcache/smctl/smctl',
+        });
+        recordToolSetup({
+            name: 'smctk',
+            platformKey: 'smctk-darwin-arm64',
+            cacheHit: false,
+            source: 'https://artifactory.example.com/stm/smctk',
+            path: '/tools/smctk'
+        });
+
+        await writeJobSummary();
+
+        expect(summary.addHeading).toHaveBeenCalledWith('Tools', 3);
+        const rows = summary.addTable.mock.calls[0][0];
+        expect(rows).toHaveLength(3);
+        expect(rows[1]).toEqual([
+            'smctl', 'smctl-linux-x64', 'hit', 'n/a', '<code>abc123</code>', '<code>/opt/hostedtoolcache/smctl/smctl</code>'
+        ]);
+        expect(rows[2][2]).toBe('miss');
+        expect(rows[2][3]).toBe('https://artifactory.example.com/stm/smctk');
+        expect(rows[2][4]).toBe('n/a');
+        expect(summary.write).toHaveBeenCalled();
+    });
+
+    test('should write a table of signed files with escaped values', async () => {
+        recordSigningReport({
+            keypairAlias: 'release-key',
+            exitCode: 1,
+            signedCount: 2,
+            skippedCount: 0,
+            failedCount: 1,
+            files: [
+                { path: 'dist/app.exe', status: SigningStatus.SIGNED, digestAlgorithm: 'SHA-256', timestamped: true },
+                { path: 'dist/setup.msi', status: SigningStatus.SIGNED, digestAlgorithm: 'SHA-256', timestamped: true, attempts: 2 },
+                {
+                    path: 'dist/<lib>.dll',
+                    status: SigningStatus.FAILED,
+                    digestAlgorithm: 'SHA-256',
+                    timestamped: false,
+                    error: 'Invalid "PE" file'
+                },
+            ],
+        });
+
+        await writeJobSummary();
+
+        expect(summary.addHeading).toHaveBeenCalledWith('Signed files', 3);
+        expect(summary.addHeading).not.toHaveBeenCalledWith('Tools', 3);
+        expect(summary.addRaw.mock.calls[0][0]).toContain('2 signed, 0 skipped, 1 failed');
+        const rows = summary.addTable.mock.calls[0][0];
+        expect(rows[1]).toEqual(['<code>dist/app.exe</code>', '✅ SIGNED', 'SHA-256', 'yes', '']);
+        expect(rows[2]).toEqual(['<code>dist/setup.msi</code>', '✅ SIGNED (attempt 2)', 'SHA-256', 'yes', '']);
+        expect(rows[3]).toEqual([
+            '<code>dist/&lt;lib&gt;.dll</code>', '❌ FAILED', 'SHA-256', 'no', 'Invalid &quot;PE&quot; file'
+        ]);
+    });
+
+    test('should only warn when the summary cannot be written', async () => {
+        recordToolSetup({ name: 'smctl', platformKey: 'smctl-linux-x64', cacheHit: false, path: '/tools/smctl' });
+        summary.write.mockRejectedValueOnce(new Error('Unable to find environment variable for $GITHUB_STEP_SUMMARY'));
+
+        await expect(writeJobSummary()).resolves.toBeUndefined();
+
+        expect(core.warning).toHaveBeenCalledWith(expect.stringContaining('GITHUB_STEP_SUMMARY'));
+    });
+});
@@ -5,6 +5,7 @@
 
 import { describe, test, expect, beforeEach, jest } from '@jest/globals';
 import { extractDmg } from '../../src/macos_dmg_setup';
+import * as cancellation from '../../src/cancellation';
 import { getExecOutput, resetMocks as resetExecMocks } from '../__mocks__/@actions/exec';
 import { resetMocks as resetCoreMocks } from '../__mocks__/@actions/core';
 
@@ -236,6 +237,33 @@ describe('macos_dmg_setup.ts - DMG Extraction and Unmounting', () => {
         });
     });
 
+    describe('extractDmg - Job Cancellation', () => {
+        test('should detach the volume when the job is cancelled while it is mounted', async () => {
+            const unregister = jest.fn();
+            const onCancel = jest.spyOn(cancellation, 'onCancel').mockReturnValue(unregister);
+            (getExecOutput as any).mockResolvedValue({ exitCode: 0, stdout: '', stderr: '' });
+            let volume = '';
+
+            await extractDmg('/path/to/test.dmg', (async (mounted: string) => {
+                volume = mounted;
+                (getExecOutput as any).mockClear();
+                // What the SIGTERM handler runs
+                await onCancel.mock.calls[0][0]();
+            }) as any);
+
+            expect(getExecOutput).toHaveBeenCalledWith('hdiutil', ['detach', volume], { ignoreReturnCode: true });
+            expect(unregister).toHaveBeenCalled();
+        });
+
+        test('should not register a cleanup when mounting fails', async () => {
+            const onCancel = jest.spyOn(cancellation, 'onCancel');
+            (getExecOutput as any).mockRejectedValueOnce(new Error('hdiutil: attach failed'));
+
+            await expect(extractDmg('/path/to/test.dmg', jest.fn() as any)).rejects.toThrow('attach failed');
+            expect(onCancel).not.toHaveBeenCalled();
+        });
+    });
+
     describe('extractDmg - Integration Test Scenarios', () => {
         test('should handle complex callback with file operations', async () => {
             const callback = jest.fn(async (mountPath: string) => {
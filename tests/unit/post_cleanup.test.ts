@@ -0,0 +1,114 @@
+/**
+ * Unit tests for post_cleanup.ts
+ * Tests the post step removing signing material, KSP/CSP registration and temp directories
+ */
+
+import { describe, test, expect, beforeEach, afterAll, jest } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as core from '@actions/core';
+import * as exec from '@actions/exec';
+import { cleanup, isPost, markMainStep, registerCleanupFile, registerMsiInstall, registerWindowsLibraries } from '../../src/post_cleanup';
+
+// Keep the cleanup away from temp directories of other test suites
+const mockTmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'post-cleanup-test-'));
+jest.mock('../../src/utils', () => ({
+    ...(jest.requireActual('../../src/utils') as object),
+    get tmpDir() { return mockTmpDir; },
+}));
+
+describe('post_cleanup.ts', () => {
+    const saveState = core.saveState as jest.Mock;
+    const getState = core.getState as jest.Mock<(name: string) => string>;
+    const getExecOutput = exec.getExecOutput as jest.Mock<any>;
+    let state: Record<string, string>;
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        state = {};
+        saveState.mockImplementation((name: any, value: any) => { state[name] = value; });
+        getState.mockImplementation(name => state[name] || '');
+        getExecOutput.mockResolvedValue({ exitCode: 0, stdout: '', stderr: '' });
+    });
+
+    afterAll(() => {
+        fs.rmSync(mockTmpDir, { recursive: true, force: true });
+    });
+
+    test('should detect the post step from the state of the main step', () => {
+        expect(isPost()).toBe(false);
+        markMainStep();
+        expect(isPost()).toBe(true);
+    });
+
+    test('should remove registered files', async () => {
+        const certificate = path.join(mockTmpDir, 'client-cert.p12');
+        fs.writeFileSync(certificate, 'certificate');
+        registerCleanupFile(certificate);
+        registerCleanupFile(certificate);
+
+        expect(JSON.parse(state['cleanupFiles'])).toEqual([certificate]);
+        await cleanup();
+
+        expect(fs.existsSync(certificate)).toBe(false);
+        expect(getExecOutput).not.toHaveBeenCalled();
+    });
+
+    test('should unregister the KSP and CSP and remove the copied DLLs', async () => {
+        const library = path.join(mockTmpDir, 'smksp.dll');
+        fs.writeFileSync(library, 'dll');
+        registerWindowsLibraries('smctl', [library]);
+
+        await cleanup();
+
+        expect(getExecOutput).toHaveBeenCalledWith('smctl', ['windows', 'ksp', 'unregister'], { ignoreReturnCode: true });
+        expect(getExecOutput).toHaveBeenCalledWith('reg', expect.arrayContaining(['delete', '/f']), expect.anything());
+        expect(fs.existsSync(library)).toBe(false);
+    });
+
+    test('should uninstall the installed MSI after unregistering the KSP', async () => {
+        registerWindowsLibraries('smctl', []);
+        registerMsiInstall('smtools-windows-x64.msi');
+
+        await cleanup();
+
+        expect(getExecOutput).toHaveBeenCalledWith('msiexec', ['/x', 'smtools-windows-x64.msi', '/qn', '/norestart'], expect.anything());
+        const commands = getExecOutput.mock.calls.map(call => call[0]);
+        expect(commands.indexOf('smctl')).toBeLessThan(commands.indexOf('msiexec'));
+    });
+
+    test('should only warn when unregistering fails', async () => {
+        registerWindowsLibraries('smctl', [path.join(mockTmpDir, 'missing.dll')]);
+        getExecOutput.mockRejectedValueOnce(new Error('smctl not found'));
+
+        await expect(cleanup()).resolves.toBeUndefined();
+
+        expect(core.warning).toHaveBeenCalledWith(expect.stringContaining('Failed to unregister the KSP. Reason: Error: smctl not found'));
+    });
+
+    test('should remove temp directories of the action only', async () => {
+        const actionDirs = ['D_', 'digicert-', 'tools-source-'].map(prefix =>
+            path.join(mockTmpDir, `${prefix}0b5c6a3e-1f2d-4c8b-9a7e-3d2f1e0c9b8a`)
+        );
+        const otherDir = path.join(mockTmpDir, 'digicert-cache');
+        for (const dir of [...actionDirs, otherDir]) {
+            fs.mkdirSync(dir);
+            fs.writeFileSync(path.join(dir, 'file'), 'content');
+        }
+
+        await cleanup();
+
+        actionDirs.forEach(dir => expect(fs.existsSync(dir)).toBe(false));
+        expect(fs.existsSync(otherDir)).toBe(true);
+        expect(core.info).toHaveBeenCalledWith(`Removed 3 temporary directories from ${mockTmpDir}`);
+    });
+
+    test('should ignore invalid state', async () => {
+        state['cleanupFiles'] = 'not json';
+
+        await expect(cleanup()).resolves.toBeUndefined();
+
+        expect(core.warning).toHaveBeenCalledWith(expect.stringContaining('Ignoring invalid cleanupFiles state'));
+    });
+});
@@ -0,0 +1,167 @@
+/**
+ * Unit tests for preflight.ts
+ * Tests the credential and connectivity checks against a fake smctl
+ */
+
+import { describe, test, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { checkEnvironment, diagnoseSmctlFailure, preflight } from '../../src/preflight';
+import { validateClientCertificate } from '../../src/client_certificate';
+import { initActionConfig } from '../../src/action_config';
+import * as core from '@actions/core';
+import { mockInputs, resetMocks as resetCoreMocks } from '../__mocks__/@actions/core';
+import { getExecOutput, resetMocks as resetExecMocks } from '../__mocks__/@actions/exec';
+
+jest.mock('../../src/client_certificate', () => ({
+    validateClientCertificate: jest.fn(() => undefined)
+}));
+
+const mockedExec = getExecOutput as jest.Mock<any>;
+const mockedValidate = validateClientCertificate as jest.Mock<typeof validateClientCertificate>;
+
+type SmctlResult = { exitCode: number; stdout?: string; stderr?: string };
+
+/** Fake smctl answering healthcheck and keypair get */
+function fakeSmctl(healthcheck: SmctlResult, keypair: SmctlResult = { exitCode: 0, stdout: 'Alias: key1' }) {
+    mockedExec.mockImplementation(async (_tool: string, args: string[]) => {
+        const rv = args[0] === 'healthcheck' ? healthcheck : keypair;
+        return { stdout: '', stderr: '', ...rv };
+    });
+}
+
+describe('preflight.ts', () => {
+    const savedEnv = { ...process.env };
+    let tempDir: string;
+    let env: NodeJS.ProcessEnv;
+
+    beforeEach(async () => {
+        resetCoreMocks();
+        resetExecMocks();
+        mockedValidate.mockReturnValue(undefined);
+        tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'preflight-test-'));
+        const certificateFile = path.join(tempDir, 'client.p12');
+        await fs.writeFile(certificateFile, 'certificate');
+        env = {
+            SM_HOST: 'https://clientauth.one.digicert.com',
+            SM_API_KEY: 'api-key',
+            SM_CLIENT_CERT_FILE: certificateFile,
+            SM_CLIENT_CERT_PASSWORD: 'secret',
+        };
+    });
+
+    afterEach(async () => {
+        process.env = { ...savedEnv };
+        await fs.rm(tempDir, { recursive: true, force: true });
+    });
+
+    describe('checkEnvironment', () => {
+        test('should accept a complete environment', async () => {
+            expect(await checkEnvironment(env)).toEqual([]);
+            expect(mockedValidate).toHaveBeenCalledWith(Buffer.from('certificate'), 'secret');
+        });
+
+        test('should report every missing variable', async () => {
+            expect(await checkEnvironment({})).toEqual([
+                'SM_HOST is not set',
+                'SM_API_KEY is not set',
+                'SM_CLIENT_CERT_PASSWORD is not set',
+                'SM_CLIENT_CERT_FILE is not set, set it or the client-cert-b64 input',
+            ]);
+        });
+
+        test.each([
+            ['an http SM_HOST', { SM_HOST: 'http://clientauth.one.digicert.com' }, 'SM_HOST must be an https:// URL'],
+            ['a SM_HOST without scheme', { SM_HOST: 'clientauth.one.digicert.com' }, 'SM_HOST is not a valid URL'],
+            ['a SM_API_KEY with a newline', { SM_API_KEY: 'api-key\n' }, 'SM_API_KEY contains whitespace'],
+            ['a missing certificate file', { SM_CLIENT_CERT_FILE: '/nonexistent/client.p12' }, "SM_CLIENT_CERT_FILE /nonexistent/client.p12 can't be read"],
+        ])('should reject %s', async (_, overrides, message) => {
+            const problems = await checkEnvironment({ ...env, ...overrides });
+
+            expect(problems).toHaveLength(1);
+            expect(problems[0]).toContain(message);
+        });
+
+        test('should reject a certificate that does not open with the password', async () => {
+            mockedValidate.mockReturnValue("doesn't open with the password");
+
+            expect(await checkEnvironment(env)).toEqual([
+                `SM_CLIENT_CERT_FILE ${env['SM_CLIENT_CERT_FILE']} doesn't open with the password`
+            ]);
+        });
+    });
+
+    describe('diagnoseSmctlFailure', () => {
+        test.each([
+            ['dial tcp: lookup clientauth.example.com: no such host', 'SM_HOST'],
+            ['remote error: tls: bad certificate', 'client certificate'],
+            ['401 Unauthorized: invalid API key', 'SM_API_KEY'],
+        ])('should blame "%s" on %s', (output, culprit) => {
+            expect(diagnoseSmctlFailure(output)).toContain(culprit);
+        });
+
+        test('should not guess on unknown output', () => {
+            expect(diagnoseSmctlFailure('something went wrong')).toBeUndefined();
+        });
+    });
+
+    describe('preflight', () => {
+        beforeEach(() => {
+            mockInputs.set('preflight', 'true');
+            initActionConfig();
+            process.env = { ...savedEnv, ...env };
+        });
+
+        test('should skip the checks when preflight is off', async () => {
+            mockInputs.delete('preflight');
+            initActionConfig();
+            process.env = {};
+
+            await expect(preflight('/tools/smctl')).resolves.toBeUndefined();
+            expect(mockedExec).not.toHaveBeenCalled();
+        });
+
+        test('should only warn about the environment in dry-run mode', async () => {
+            mockInputs.set('dry-run', 'true');
+            mockInputs.set('simple-signing-mode', 'true');
+            initActionConfig();
+            delete process.env['SM_API_KEY'];
+
+            await expect(preflight('/tools/smctl')).resolves.toBeUndefined();
+            expect(core.warning).toHaveBeenCalledWith('Dry run: SM_API_KEY is not set, signing would fail');
+            expect(mockedExec).not.toHaveBeenCalled();
+        });
+
+        test('should pass with a healthy smctl and keypair', async () => {
+            mockInputs.set('keypair-alias', 'key1');
+            initActionConfig();
+            fakeSmctl({ exitCode: 0, stdout: 'OK' });
+
+            await expect(preflight('/tools/smctl')).resolves.toBeUndefined();
+            expect(mockedExec).toHaveBeenCalledWith('/tools/smctl', ['healthcheck'], expect.anything());
+            expect(mockedExec).toHaveBeenCalledWith('/tools/smctl', ['keypair', 'get', '--keypair-alias', 'key1'], expect.anything());
+        });
+
+        test('should not run smctl when the environment is incomplete', async () => {
+            delete process.env['SM_API_KEY'];
+
+            await expect(preflight('/tools/smctl')).rejects.toThrow('Preflight check failed:\n  - SM_API_KEY is not set');
+            expect(mockedExec).not.toHaveBeenCalled();
+        });
+
+        test('should name the rejected credential from the healthcheck', async () => {
+            fakeSmctl({ exitCode: 1, stderr: 'Error: 401 Unauthorized' });
+
+            await expect(preflight('/tools/smctl')).rejects.toThrow(/SM_API_KEY was rejected, .* \(exit code 1\): Error: 401 Unauthorized/);
+        });
+
+        test('should report an unknown keypair-alias', async () => {
+            mockInputs.set('keypair-alias', 'missing');
+            initActionConfig();
+            fakeSmctl({ exitCode: 0 }, { exitCode: 1, stderr: 'Keypair not found' });
+
+            await expect(preflight('/tools/smctl')).rejects.toThrow('keypair-alias missing was not found');
+        });
+    });
+});
@@ -1,5 +1,5 @@
 import * as core from '@actions/core';
-import { retryWithBackoff } from '../../src/utils';
+import { isRetryableError, retryAfterMs, retryWithBackoff } from '../../src/utils';
 
 // Mock @actions/core
 jest.mock('@actions/core');
@@ -8,6 +8,8 @@ describe('retryWithBackoff', () => {
     beforeEach(() => {
         jest.clearAllMocks();
         jest.useFakeTimers();
+        // Full jitter picks the whole backoff
+        jest.spyOn(Math, 'random').mockReturnValue(1);
     });
 
     afterEach(() => {
@@ -374,6 +376,110 @@ describe('retryWithBackoff', () => {
         });
     });
 
+    describe('Retryable Errors', () => {
+        const httpError = (status: number) =>
+            Object.assign(new Error(`Unexpected HTTP response: ${status}`), { httpStatusCode: status });
+
+        test('should fail immediately on HTTP 404', async () => {
+            const operation = jest.fn().mockRejectedValue(httpError(404));
+
+            const result = retryWithBackoff(operation, 'Download smctl').catch(err => err);
+            await jest.runAllTimersAsync();
+
+            expect((await result).message).toBe('Unexpected HTTP response: 404');
+            expect(operation).toHaveBeenCalledTimes(1);
+            expect(core.warning).not.toHaveBeenCalled();
+            expect(core.error).not.toHaveBeenCalled();
+        });
+
+        test('should retry HTTP 429 and 5xx', async () => {
+            const operation = jest.fn()
+                .mockRejectedValueOnce(httpError(429))
+                .mockRejectedValueOnce(httpError(503))
+                .mockResolvedValueOnce('success');
+
+            const promise = retryWithBackoff(operation, 'Download smctl');
+            await jest.runAllTimersAsync();
+
+            expect(await promise).toBe('success');
+            expect(operation).toHaveBeenCalledTimes(3);
+        });
+
+        test('should classify the error wrapped through cause', async () => {
+            const operation = jest.fn().mockRejectedValue(new Error('CDN responded with HTTP 403', { cause: httpError(403) }));
+
+            const result = retryWithBackoff(operation, 'Download smctl').catch(err => err);
+            await jest.runAllTimersAsync();
+
+            expect((await result).message).toBe('CDN responded with HTTP 403');
+            expect(operation).toHaveBeenCalledTimes(1);
+        });
+
+        test('should use a custom isRetryable', async () => {
+            const operation = jest.fn().mockRejectedValue(new Error('Checksum mismatch'));
+
+            const result = retryWithBackoff(operation, 'Verify smctl', {
+                isRetryable: error => !error.message.startsWith('Checksum')
+            }).catch(err => err);
+            await jest.runAllTimersAsync();
+
+            expect((await result).message).toBe('Checksum mismatch');
+            expect(operation).toHaveBeenCalledTimes(1);
+        });
+
+        test('isRetryableError should tell network errors from local ones', () => {
+            expect(isRetryableError(Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' }))).toBe(true);
+            expect(isRetryableError(Object.assign(new Error('no such file'), { code: 'ENOENT' }))).toBe(false);
+            expect(isRetryableError(Object.assign(new Error('self-signed'), { code: 'SELF_SIGNED_CERT_IN_CHAIN' }))).toBe(false);
+            expect(isRetryableError(httpError(408))).toBe(true);
+            expect(isRetryableError(httpError(401))).toBe(false);
+            expect(isRetryableError(new Error('Network timeout'))).toBe(true);
+        });
+    });
+
+    describe('Retry-After and Jitter', () => {
+        test('should wait a random delay up to the backoff', async () => {
+            (Math.random as jest.Mock).mockReturnValue(0.25);
+            const operation = jest.fn()
+                .mockRejectedValueOnce(new Error('Fail'))
+                .mockResolvedValueOnce('success');
+
+            const promise = retryWithBackoff(operation, 'Test', { initialDelayMs: 2000 });
+            await jest.runAllTimersAsync();
+            await promise;
+
+            expect(core.info).toHaveBeenCalledWith('Retrying in 500ms with exponential backoff...');
+        });
+
+        test('should wait as long as Retry-After asks', async () => {
+            // Shaped like the errors of fetchToolFile
+            const throttled = Object.assign(
+                new Error('CDN responded with HTTP 429', { cause: Object.assign(new Error('Too Many Requests'), { httpStatusCode: 429 }) }),
+                { headers: { 'retry-after': '45' } }
+            );
+            const operation = jest.fn()
+                .mockRejectedValueOnce(throttled)
+                .mockResolvedValueOnce('success');
+
+            const promise = retryWithBackoff(operation, 'Test', { initialDelayMs: 1000 });
+            await jest.advanceTimersByTimeAsync(44999);
+            expect(operation).toHaveBeenCalledTimes(1);
+            await jest.advanceTimersByTimeAsync(1);
+
+            expect(await promise).toBe('success');
+            expect(core.info).toHaveBeenCalledWith('Retrying in 45000ms as requested by Retry-After...');
+        });
+
+        test('retryAfterMs should read seconds and HTTP dates', () => {
+            const now = Date.parse('Mon, 19 Oct 2026 12:00:00 GMT');
+
+            expect(retryAfterMs({ headers: { 'retry-after': '120' } }, now)).toBe(120000);
+            expect(retryAfterMs(new Error('wrapped', { cause: { headers: { 'retry-after': 'Mon, 19 Oct 2026 12:00:30 GMT' } } }), now)).toBe(30000);
+            expect(retryAfterMs({ headers: { 'retry-after': 'soon' } }, now)).toBeUndefined();
+            expect(retryAfterMs(new Error('no headers'), now)).toBeUndefined();
+        });
+    });
+
     describe('Edge Cases', () => {
         test('should handle operation that throws synchronously', async () => {
             const operation = jest.fn().mockImplementation(() => {
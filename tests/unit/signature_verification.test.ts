@@ -0,0 +1,191 @@
+/**
+ * Unit tests for signature_verification.ts
+ * Tests post-sign verification of signatures and signer certificates
+ */
+
+import { describe, test, expect, beforeEach, jest } from '@jest/globals';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { verifyFile, verifySignatures } from '../../src/signature_verification';
+import { SigningReport, SigningStatus } from '../../src/signing_report';
+import { initActionConfig } from '../../src/action_config';
+import { resetMocks as resetCoreMocks } from '../__mocks__/@actions/core';
+import { getExecOutput, resetMocks as resetExecMocks } from '../__mocks__/@actions/exec';
+
+const mockedExec = getExecOutput as jest.Mock<typeof getExecOutput>;
+
+const KEYPAIR_OUTPUT = 'Alias: release-key\nCertificate fingerprint: AA:BB:CC:DD\n';
+
+function execResult(exitCode: number, stdout: string, stderr = '') {
+    return { exitCode, stdout, stderr };
+}
+
+function reportOf(...files: Array<[string, SigningStatus]>): SigningReport {
+    return {
+        keypairAlias: 'release-key',
+        exitCode: 0,
+        signedCount: 0,
+        skippedCount: 0,
+        failedCount: 0,
+        files: files.map(([path, status]) => ({ path, status, digestAlgorithm: 'SHA-256', timestamped: true })),
+    };
+}
+
+/** Routes `keypair get` and `sign verify` calls to the given per-file verify results */
+function mockSmctl(verifyResults: Record<string, ReturnType<typeof execResult>>) {
+    mockedExec.mockImplementation(async (_tool: string, args?: string[]) => {
+        if (args?.[0] === 'keypair') {
+            return execResult(0, KEYPAIR_OUTPUT);
+        }
+        return verifyResults[args![3]];
+    });
+}
+
+describe('signature_verification.ts', () => {
+    beforeEach(() => {
+        resetCoreMocks();
+        resetExecMocks();
+        initActionConfig();
+    });
+
+    describe('verifyFile', () => {
+        test('should accept a valid signature from the expected certificate', async () => {
+            mockedExec.mockResolvedValue(execResult(0, 'Signature: valid\nFingerprint: aabbccdd'));
+
+            const rv = await verifyFile('app.exe', 'aabbccdd', '/smctl');
+
+            expect(rv).toEqual({ path: 'app.exe', valid: true, fingerprint: 'aabbccdd' });
+            expect(mockedExec).toHaveBeenCalledWith('/smctl', ['sign', 'verify', '--input', 'app.exe'], { ignoreReturnCode: true });
+        });
+
+        test('should reject a missing or invalid signature', async () => {
+            mockedExec.mockResolvedValue(execResult(1, '', 'No signature found'));
+
+            const rv = await verifyFile('app.exe', 'aabbccdd', '/smctl');
+
+            expect(rv.valid).toBe(false);
+            expect(rv.error).toContain('No signature found');
+        });
+
+        test('should reject a signature from another certificate', async () => {
+            mockedExec.mockResolvedValue(execResult(0, 'Thumbprint: 11 22 33 44'));
+
+            const rv = await verifyFile('app.exe', 'aabbccdd', '/smctl');
+
+            expect(rv.valid).toBe(false);
+            expect(rv.error).toBe('Signed with certificate 11223344, expected aabbccdd');
+        });
+
+        test('should reject when smctl does not report the signer fingerprint', async () => {
+            mockedExec.mockResolvedValue(execResult(0, 'Signature: valid'));
+
+            const rv = await verifyFile('app.exe', 'aabbccdd');
+
+            expect(rv.valid).toBe(false);
+            expect(mockedExec.mock.calls[0][0]).toBe('smctl');
+        });
+    });
+
+    describe('verifySignatures', () => {
+        test('should verify signed and failed files but not skipped ones', async () => {
+            mockSmctl({
+                'a.exe': execResult(0, 'Fingerprint: AA:BB:CC:DD'),
+                'c.exe': execResult(0, 'Fingerprint: AA:BB:CC:DD'),
+            });
+
+            const rv = await verifySignatures(reportOf(
+                ['a.exe', SigningStatus.SIGNED],
+                ['b.exe', SigningStatus.SKIPPED],
+                ['c.exe', SigningStatus.FAILED],
+            ), '/smctl');
+
+            expect(rv.map(it => it.path)).toEqual(['a.exe', 'c.exe']);
+            expect(mockedExec).toHaveBeenCalledWith('/smctl', ['keypair', 'get', '--keypair-alias', 'release-key'], expect.anything());
+        });
+
+        test('should verify the signable files of a directory reported as a whole', async () => {
+            const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'signature-verification-test-'));
+            try {
+                await fs.mkdir(path.join(tempDir, 'x64'));
+                await fs.writeFile(path.join(tempDir, 'app.exe'), 'exe');
+                await fs.writeFile(path.join(tempDir, 'x64', 'lib.dll'), 'dll');
+                await fs.writeFile(path.join(tempDir, 'README.txt'), 'readme');
+                mockSmctl({
+                    [path.join(tempDir, 'app.exe')]: execResult(0, 'Fingerprint: AA:BB:CC:DD'),
+                    [path.join(tempDir, 'x64', 'lib.dll')]: execResult(0, 'Fingerprint: AA:BB:CC:DD'),
+                });
+
+                const rv = await verifySignatures(reportOf([tempDir, SigningStatus.UNKNOWN]), '/smctl');
+
+                expect(rv.map(it => it.path).sort()).toEqual([path.join(tempDir, 'app.exe'), path.join(tempDir, 'x64', 'lib.dll')]);
+                expect(rv.every(it => it.valid)).toBe(true);
+            } finally {
+                await fs.rm(tempDir, { recursive: true, force: true });
+            }
+        });
+
+        test('should verify a file whose name looks like a glob pattern as it is', async () => {
+            const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'signature-verification-test-'));
+            try {
+                const file = path.join(tempDir, 'app[x64].exe');
+                await fs.writeFile(file, 'exe');
+                mockSmctl({ [file]: execResult(0, 'Fingerprint: AA:BB:CC:DD') });
+
+                const rv = await verifySignatures(reportOf([file, SigningStatus.SIGNED]), '/smctl');
+
+                expect(rv).toEqual([{ path: file, valid: true, fingerprint: 'aabbccdd' }]);
+            } finally {
+                await fs.rm(tempDir, { recursive: true, force: true });
+            }
+        });
+
+        test('should fail listing every file that did not verify', async () => {
+            mockSmctl({
+                'a.exe': execResult(0, 'Fingerprint: AA:BB:CC:DD'),
+                'b.exe': execResult(1, '', 'No signature found'),
+                'c.exe': execResult(0, 'Fingerprint: 00:11'),
+            });
+
+            const rv = verifySignatures(reportOf(
+                ['a.exe', SigningStatus.SIGNED],
+                ['b.exe', SigningStatus.FAILED],
+                ['c.exe', SigningStatus.SIGNED],
+            ), '/smctl');
+
+            await expect(rv).rejects.toThrow(/failed for 2 of 3 file\(s\)[\s\S]*b\.exe[\s\S]*c\.exe: Signed with certificate 0011/);
+        });
+
+        test('should fail when the keypair certificate fingerprint is unknown', async () => {
+            mockedExec.mockResolvedValue(execResult(0, 'Alias: release-key'));
+
+            await expect(verifySignatures(reportOf(['a.exe', SigningStatus.SIGNED]), '/smctl'))
+                .rejects.toThrow('Unable to determine the certificate fingerprint of keypair release-key');
+        });
+
+        test('should fail when the keypair lookup fails', async () => {
+            mockedExec.mockResolvedValue(execResult(1, '', 'Keypair not found'));
+
+            await expect(verifySignatures(reportOf(['a.exe', SigningStatus.SIGNED]), '/smctl'))
+                .rejects.toThrow('Keypair not found');
+        });
+
+        test('should verify files of signing rules against their own keypair', async () => {
+            mockedExec.mockImplementation(async (_tool: string, args?: string[]) => {
+                if (args?.[0] === 'keypair') {
+                    return execResult(0, args[3] === 'java-key' ? 'Fingerprint: 11:22' : KEYPAIR_OUTPUT);
+                }
+                return execResult(0, args![3] === 'a.jar' ? 'Fingerprint: 11:22' : 'Fingerprint: AA:BB:CC:DD');
+            });
+            const report = reportOf(['a.exe', SigningStatus.SIGNED]);
+
+            const rv = await verifySignatures({
+                ...report,
+                files: [...report.files, { path: 'a.jar', status: SigningStatus.SIGNED, digestAlgorithm: 'SHA-256', timestamped: true, keypairAlias: 'java-key' }],
+            }, '/smctl');
+
+            expect(rv.every(it => it.valid)).toBe(true);
+            expect(mockedExec).toHaveBeenCalledWith('/smctl', ['keypair', 'get', '--keypair-alias', 'java-key'], expect.anything());
+        });
+    });
+});
@@ -0,0 +1,136 @@
+/**
+ * Unit tests for signing_config_file.ts
+ * Tests parsing and schema validation of .digicert/signing.yml
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from '@jest/globals';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import * as core from '@actions/core';
+import { parseSigningConfig, readSigningConfigFile } from '../../src/signing_config_file';
+import { resetMocks } from '../__mocks__/@actions/core';
+
+const FILE = '.digicert/signing.yml';
+
+describe('signing_config_file.ts', () => {
+    beforeEach(() => {
+        resetMocks();
+    });
+
+    describe('parseSigningConfig', () => {
+        test('should map the values to inputs', () => {
+            const config = parseSigningConfig([
+                'version: 1',
+                'keypair-alias: release-key',
+                'input:',
+                '  - dist/**/*.exe',
+                '  - "!dist/test/**"',
+                'digest-alg: SHA-384',
+                'timestamp: false',
+            ].join('\n'), FILE);
+
+            expect(config.inputs).toEqual({
+                'keypair-alias': 'release-key',
+                'input': 'dist/**/*.exe\n!dist/test/**',
+                'digest-alg': 'SHA-384',
+                'timestamp': 'false',
+            });
+            expect(config.rules).toEqual([]);
+        });
+
+        test('should read the signing rules', () => {
+            const config = parseSigningConfig([
+                'version: 1',
+                'rules:',
+                '  - files: .jar',
+                '    keypair-alias: java-key',
+                '    timestamp: false',
+                '  - files: ["**/*.exe", "**/*.dll"]',
+                '    digest-alg: sha512',
+            ].join('\n'), FILE);
+
+            expect(config.rules).toEqual([
+                { files: ['.jar'], keypairAlias: 'java-key', digestAlg: undefined, timestamp: false, unsigned: undefined },
+                { files: ['**/*.exe', '**/*.dll'], keypairAlias: undefined, digestAlg: 'sha512', timestamp: undefined, unsigned: undefined },
+            ]);
+        });
+
+        test('should report YAML syntax errors with their line', () => {
+            expect(() => parseSigningConfig('version: 1\nversion: 1\n', FILE)).toThrow(
+                'Invalid signing configuration .digicert/signing.yml:\n    .digicert/signing.yml:2:1: Map keys must be unique'
+            );
+        });
+
+        test('should report every schema violation with its line and column', () => {
+            const content = [
+                'version: 1',
+                'keypair-alias: release-key',
+                'digest-alg: SHA-265',
+                'timestamps: false',
+                'rules:',
+                '  - keypair-alias: java-key',
+                '    unsigned: "yes"',
+            ].join('\n');
+
+            expect(() => parseSigningConfig(content, FILE)).toThrow(
+                'Invalid signing configuration .digicert/signing.yml:\n' +
+                '    .digicert/signing.yml:3:13: digest-alg "SHA-265" is not one of SHA-1, SHA-256, SHA-384 or SHA-512\n' +
+                '    .digicert/signing.yml:4:1: unknown key timestamps\n' +
+                '    .digicert/signing.yml:6:5: rules[0] is missing the required key files\n' +
+                '    .digicert/signing.yml:7:15: rules[0].unsigned must be boolean'
+            );
+        });
+
+        test('should annotate the file with the errors', () => {
+            expect(() => parseSigningConfig('version: 2\n', FILE)).toThrow('.digicert/signing.yml:1:10: version must be 1');
+            expect(core.error).toHaveBeenCalledWith('version must be 1', {
+                title: 'Invalid signing configuration', file: FILE, startLine: 1, startColumn: 10
+            });
+        });
+
+        test('should reject an empty file', () => {
+            expect(() => parseSigningConfig('', FILE)).toThrow('.digicert/signing.yml:1:1: the configuration must be object');
+        });
+    });
+
+    describe('readSigningConfigFile', () => {
+        const savedWorkspace = process.env['GITHUB_WORKSPACE'];
+        let workspace: string;
+
+        beforeEach(async () => {
+            workspace = await fs.mkdtemp(path.join(os.tmpdir(), 'signing-config-test-'));
+            process.env['GITHUB_WORKSPACE'] = workspace;
+        });
+
+        afterEach(async () => {
+            if (savedWorkspace === undefined) {
+                delete process.env['GITHUB_WORKSPACE'];
+            } else {
+                process.env['GITHUB_WORKSPACE'] = savedWorkspace;
+            }
+            await fs.rm(workspace, { recursive: true, force: true });
+        });
+
+        test('should return undefined without .digicert/signing.yml', () => {
+            expect(readSigningConfigFile('')).toBeUndefined();
+        });
+
+        test('should read .digicert/signing.yml of the workspace', async () => {
+            await fs.mkdir(path.join(workspace, '.digicert'));
+            await fs.writeFile(path.join(workspace, FILE), 'version: 1\nkeypair-alias: release-key\n');
+
+            expect(readSigningConfigFile('')?.inputs).toEqual({ 'keypair-alias': 'release-key' });
+        });
+
+        test('should read config-file relative to the workspace', async () => {
+            await fs.writeFile(path.join(workspace, 'signing.yml'), 'version: 1\nunsigned: true\n');
+
+            expect(readSigningConfigFile('signing.yml')?.inputs).toEqual({ 'unsigned': 'true' });
+        });
+
+        test('should fail when config-file does not exist', () => {
+            expect(() => readSigningConfigFile('missing.yml')).toThrow('config-file missing.yml does not exist');
+        });
+    });
+});
@@ -0,0 +1,187 @@
+/**
+ * Unit tests for signing_policy.ts
+ * Tests the digest and keypair policy gate of simple-signing mode
+ */
+
+import { describe, test, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import * as core from '@actions/core';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { checkDigestPolicy, checkKeypairPolicy, checkSigningRuleKeypairs, normalizeDigestAlgorithm } from '../../src/signing_policy';
+import { initActionConfig } from '../../src/action_config';
+import { mockInputs, resetMocks } from '../__mocks__/@actions/core';
+import { getExecOutput, resetMocks as resetExecMocks } from '../__mocks__/@actions/exec';
+
+const mockedExec = getExecOutput as jest.Mock<typeof getExecOutput>;
+
+describe('signing_policy.ts', () => {
+    beforeEach(() => {
+        resetMocks();
+        resetExecMocks();
+        initActionConfig();
+    });
+
+    describe('normalizeDigestAlgorithm', () => {
+        test.each([
+            ['SHA-256', 'SHA-256'],
+            ['sha256', 'SHA-256'],
+            [' SHA384 ', 'SHA-384'],
+            ['sha-512', 'SHA-512'],
+            ['SHA1', 'SHA-1'],
+        ])('should map %s to %s', (value, expected) => {
+            expect(normalizeDigestAlgorithm(value, 'digest-alg')).toBe(expected);
+        });
+
+        test('should reject unknown algorithms', () => {
+            expect(() => normalizeDigestAlgorithm('SHA-265', 'digest-alg')).toThrow(
+                'Invalid digest-alg SHA-265. Supported digest algorithms: SHA-1, SHA-256, SHA-384, SHA-512'
+            );
+        });
+    });
+
+    describe('checkDigestPolicy', () => {
+        test('should accept the default digest', () => {
+            expect(() => checkDigestPolicy()).not.toThrow();
+        });
+
+        test('should reject SHA-1 by default', () => {
+            mockInputs.set('digest-alg', 'SHA1');
+            initActionConfig();
+
+            expect(() => checkDigestPolicy()).toThrow('digest-alg SHA1 is weaker than the signing policy allows (minimum-digest-alg SHA-256)');
+        });
+
+        test('should allow SHA-1 with a lower minimum-digest-alg', () => {
+            mockInputs.set('digest-alg', 'SHA1');
+            mockInputs.set('minimum-digest-alg', 'SHA-1');
+            initActionConfig();
+
+            expect(() => checkDigestPolicy()).not.toThrow();
+        });
+
+        test('should reject SHA-256 below a SHA-384 minimum', () => {
+            mockInputs.set('digest-alg', 'SHA-256');
+            mockInputs.set('minimum-digest-alg', 'SHA-384');
+            initActionConfig();
+
+            expect(() => checkDigestPolicy()).toThrow('weaker than the signing policy allows');
+        });
+
+        test('should check the digest-alg of the signing rules', async () => {
+            const workspace = await fs.mkdtemp(path.join(os.tmpdir(), 'signing-policy-test-'));
+            try {
+                await fs.writeFile(path.join(workspace, 'signing.yml'), 'version: 1\nrules:\n  - files: .jar\n    digest-alg: SHA1\n');
+                mockInputs.set('simple-signing-mode', 'true');
+                mockInputs.set('config-file', path.join(workspace, 'signing.yml'));
+                initActionConfig();
+
+                expect(() => checkDigestPolicy()).toThrow('digest-alg of signing rule 1 SHA1 is weaker than the signing policy allows');
+            } finally {
+                await fs.rm(workspace, { recursive: true, force: true });
+            }
+        });
+
+        test('should reject a typo before anything is downloaded', () => {
+            mockInputs.set('digest-alg', 'SAH-256');
+            initActionConfig();
+
+            expect(() => checkDigestPolicy()).toThrow('Invalid digest-alg SAH-256');
+        });
+    });
+
+    describe('checkKeypairPolicy', () => {
+        const details = { keyAlgorithm: 'RSA', keySize: 3072, keypairStatus: 'ACTIVE' };
+
+        beforeEach(() => {
+            mockInputs.set('keypair-alias', 'key1');
+            initActionConfig();
+        });
+
+        test('should skip without keypair-alias', () => {
+            mockInputs.delete('keypair-alias');
+            mockInputs.set('allowed-key-algorithms', 'ECDSA');
+            initActionConfig();
+
+            expect(() => checkKeypairPolicy(undefined)).not.toThrow();
+        });
+
+        test('should accept a keypair matching the policy', () => {
+            mockInputs.set('allowed-key-algorithms', 'RSA, ECDSA');
+            mockInputs.set('minimum-rsa-key-size', '3072');
+            initActionConfig();
+
+            expect(() => checkKeypairPolicy(details)).not.toThrow();
+        });
+
+        test('should reject a disabled keypair without further policy', () => {
+            expect(() => checkKeypairPolicy({ ...details, keypairStatus: 'DISABLED' })).toThrow(
+                'Signing policy violated:\n  - keypair key1 is DISABLED'
+            );
+        });
+
+        test('should list every violation', () => {
+            mockInputs.set('allowed-key-algorithms', 'ECDSA');
+            mockInputs.set('minimum-rsa-key-size', '4096');
+            initActionConfig();
+
+            expect(() => checkKeypairPolicy(details)).toThrow(
+                'Signing policy violated:\n' +
+                '  - key algorithm RSA of keypair key1 is not in allowed-key-algorithms ECDSA\n' +
+                '  - RSA key of keypair key1 has 3072 bits, minimum-rsa-key-size is 4096'
+            );
+        });
+
+        test('should not apply minimum-rsa-key-size to other algorithms', () => {
+            mockInputs.set('minimum-rsa-key-size', '4096');
+            initActionConfig();
+
+            expect(() => checkKeypairPolicy({ keyAlgorithm: 'ECDSA', keySize: 256 })).not.toThrow();
+        });
+
+        test('should fail when the keypair could not be looked up and a policy is set', () => {
+            mockInputs.set('allowed-key-algorithms', 'RSA');
+            initActionConfig();
+
+            expect(() => checkKeypairPolicy(undefined)).toThrow("Unable to apply the signing policy, keypair key1 couldn't be looked up");
+        });
+
+        test('should reject an invalid minimum-rsa-key-size', () => {
+            mockInputs.set('minimum-rsa-key-size', 'large');
+
+            expect(() => initActionConfig()).toThrow('Invalid minimum-rsa-key-size large');
+        });
+    });
+
+    describe('checkSigningRuleKeypairs', () => {
+        let workspace: string;
+
+        beforeEach(async () => {
+            workspace = await fs.mkdtemp(path.join(os.tmpdir(), 'signing-policy-test-'));
+            await fs.writeFile(path.join(workspace, 'signing.yml'), 'version: 1\nrules:\n  - files: .jar\n    keypair-alias: java-key\n');
+            mockInputs.set('simple-signing-mode', 'true');
+            mockInputs.set('keypair-alias', 'key1');
+            mockInputs.set('config-file', path.join(workspace, 'signing.yml'));
+            initActionConfig();
+            mockedExec.mockResolvedValue({ exitCode: 1, stdout: '', stderr: 'Keypair not found' });
+        });
+
+        afterEach(async () => {
+            await fs.rm(workspace, { recursive: true, force: true });
+        });
+
+        test('should warn when the keypair of a rule could not be looked up', async () => {
+            await checkSigningRuleKeypairs('/smctl');
+
+            expect(mockedExec).toHaveBeenCalledWith('/smctl', ['keypair', 'get', '--keypair-alias', 'java-key'], expect.anything());
+            expect(core.warning).toHaveBeenCalledWith(expect.stringContaining('Unable to check the keypair of a signing rule: Failed to look up keypair java-key (exit code 1): Keypair not found'));
+        });
+
+        test('should fail when the keypair of a rule could not be looked up with fail-on-certificate-expiry', async () => {
+            mockInputs.set('fail-on-certificate-expiry', 'true');
+            initActionConfig();
+
+            await expect(checkSigningRuleKeypairs('/smctl')).rejects.toThrow('Unable to check the keypair of a signing rule: Failed to look up keypair java-key (exit code 1): Keypair not found');
+        });
+    });
+});
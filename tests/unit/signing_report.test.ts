@@ -0,0 +1,199 @@
+/**
+ * Unit tests for signing_report.ts
+ * Tests parsing of smctl sign output and publishing of the signing report
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from '@jest/globals';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as core from '@actions/core';
+import {
+    buildSigningReport,
+    mergeRetryReport,
+    mergeSigningReports,
+    parseSmctlOutput,
+    publishSigningReport,
+    SigningStatus
+} from '../../src/signing_report';
+import {
+    mockOutputs,
+    resetMocks as resetCoreMocks
+} from '../__mocks__/@actions/core';
+
+const options = { digestAlgorithm: 'SHA-256', timestamp: true };
+
+describe('signing_report.ts', () => {
+    beforeEach(() => {
+        resetCoreMocks();
+    });
+
+    describe('parseSmctlOutput', () => {
+        test('should parse signed, skipped and failed lines', () => {
+            const output = [
+                'Signing 3 files...',
+                'Successfully signed /build/app.exe',
+                'Skipped already signed file: /build/lib.dll',
+                'Failed to sign C:\\build\\setup.msi: Keypair is disabled',
+            ].join('\n');
+
+            const rv = parseSmctlOutput(output, ['/build/app.exe', '/build/lib.dll', 'C:\\build\\setup.msi'], options);
+
+            expect(rv).toEqual([
+                { path: '/build/app.exe', status: SigningStatus.SIGNED, digestAlgorithm: 'SHA-256', timestamped: true },
+                { path: '/build/lib.dll', status: SigningStatus.SKIPPED, digestAlgorithm: 'SHA-256', timestamped: false },
+                {
+                    path: 'C:\\build\\setup.msi',
+                    status: SigningStatus.FAILED,
+                    digestAlgorithm: 'SHA-256',
+                    timestamped: false,
+                    error: 'Keypair is disabled'
+                },
+            ]);
+        });
+
+        test('should report timestamped=false when timestamping is disabled', () => {
+            const rv = parseSmctlOutput('Signed: app.exe', ['app.exe'], { digestAlgorithm: 'SHA-512', timestamp: false });
+
+            expect(rv).toEqual([
+                { path: 'app.exe', status: SigningStatus.SIGNED, digestAlgorithm: 'SHA-512', timestamped: false },
+            ]);
+        });
+
+        test('should keep the last result for a file reported twice', () => {
+            const output = 'Failed to sign app.exe: timeout\r\nSuccessfully signed app.exe';
+
+            const rv = parseSmctlOutput(output, ['app.exe'], options);
+
+            expect(rv).toHaveLength(1);
+            expect(rv[0].status).toBe(SigningStatus.SIGNED);
+        });
+
+        test('should ignore unrelated lines', () => {
+            expect(parseSmctlOutput('smctl version 1.0\n\nDone', ['app.exe'], options)).toEqual([]);
+        });
+
+        test('should accept files under an input directory', () => {
+            const rv = parseSmctlOutput('Signed: dist/x64/app.exe\nSigned: distribution/app.exe', ['dist'], options);
+
+            expect(rv.map(it => it.path)).toEqual(['dist/x64/app.exe']);
+        });
+
+        test('should not take summary lines for files', () => {
+            const output = 'Successfully signed dist/app.exe\nSigned: 3\nSkipped: 0\nFailed to sign: 1';
+
+            const rv = parseSmctlOutput(output, ['dist'], options);
+
+            expect(rv).toEqual([
+                { path: 'dist/app.exe', status: SigningStatus.SIGNED, digestAlgorithm: 'SHA-256', timestamped: true },
+            ]);
+        });
+    });
+
+    describe('buildSigningReport', () => {
+        test('should count results by status', () => {
+            const report = buildSigningReport('key', ['dist'], {
+                exitCode: 1,
+                stdout: 'Successfully signed dist/a.exe\nSuccessfully signed dist/b.exe\nSkipped dist/c.exe\nSigned: 2',
+                stderr: 'Failed to sign dist/d.exe: invalid file',
+            }, options);
+
+            expect(report.keypairAlias).toBe('key');
+            expect(report.exitCode).toBe(1);
+            expect(report.signedCount).toBe(2);
+            expect(report.skippedCount).toBe(1);
+            expect(report.failedCount).toBe(1);
+            expect(report.files).toHaveLength(4);
+        });
+
+        test('should report every input as failed when output has no file lines', () => {
+            const report = buildSigningReport('key', ['a.exe', 'b.exe'], {
+                exitCode: 2,
+                stdout: '',
+                stderr: 'Error: Unauthorized\n',
+            }, options);
+
+            expect(report.failedCount).toBe(2);
+            expect(report.files.map(it => it.error)).toEqual(['Error: Unauthorized', 'Error: Unauthorized']);
+        });
+
+        test('should report every input as unknown and count none when smctl succeeded silently', () => {
+            const report = buildSigningReport('key', ['dist', 'a.exe'], { exitCode: 0, stdout: '', stderr: '' }, options);
+
+            expect(report).toMatchObject({ signedCount: 0, skippedCount: 0, failedCount: 0 });
+            expect(report.files.map(it => it.status)).toEqual([SigningStatus.UNKNOWN, SigningStatus.UNKNOWN]);
+            expect(report.files[0].timestamped).toBe(false);
+        });
+    });
+
+    describe('mergeSigningReports', () => {
+        test('should sum the results and keep the keypair of every file', () => {
+            const jar = buildSigningReport('java-key', ['a.jar'], { exitCode: 0, stdout: 'Successfully signed a.jar', stderr: '' }, options);
+            const exe = buildSigningReport('key', ['a.exe'], { exitCode: 1, stdout: '', stderr: 'Error: 503' }, options);
+
+            const report = mergeSigningReports('key', [jar, exe]);
+
+            expect(report).toMatchObject({ keypairAlias: 'key', exitCode: 1, signedCount: 1, failedCount: 1 });
+            expect(report.files.map(it => [it.path, it.keypairAlias])).toEqual([['a.jar', 'java-key'], ['a.exe', 'key']]);
+        });
+    });
+
+    describe('mergeRetryReport', () => {
+        test('should replace the results of the retried files and record the attempt', () => {
+            const first = buildSigningReport('key', ['a.exe', 'b.exe', 'c.exe'], {
+                exitCode: 1,
+                stdout: 'Successfully signed: a.exe\nFailed to sign: b.exe: 503 Service Unavailable\nFailed to sign: c.exe: 503 Service Unavailable',
+                stderr: ''
+            }, options);
+            const retry = buildSigningReport('key', ['b.exe', 'c.exe'], {
+                exitCode: 1,
+                stdout: 'Successfully signed: b.exe\nFailed to sign: c.exe: 503 Service Unavailable',
+                stderr: ''
+            }, options);
+
+            const report = mergeRetryReport(first, retry, 2);
+
+            expect(report).toMatchObject({ keypairAlias: 'key', exitCode: 1, signedCount: 2, failedCount: 1 });
+            expect(report.files.map(it => [it.path, it.status, it.attempts])).toEqual([
+                ['a.exe', SigningStatus.SIGNED, undefined],
+                ['b.exe', SigningStatus.SIGNED, 2],
+                ['c.exe', SigningStatus.FAILED, 2],
+            ]);
+        });
+    });
+
+    describe('publishSigningReport', () => {
+        let reportPath: string | undefined;
+
+        afterEach(async () => {
+            if (reportPath) {
+                await fs.rm(path.dirname(reportPath), { recursive: true, force: true });
+            }
+        });
+
+        test('should write the JSON report and set outputs', async () => {
+            const report = buildSigningReport('key', ['a.exe', 'b.exe'], {
+                exitCode: 0,
+                stdout: 'Successfully signed a.exe\nSkipped b.exe',
+                stderr: '',
+            }, options);
+
+            reportPath = await publishSigningReport(report);
+
+            const written = JSON.parse(await fs.readFile(reportPath, 'utf-8'));
+            expect(written).toEqual(report);
+            expect(mockOutputs.get('signed-count')).toBe(1);
+            expect(mockOutputs.get('skipped-count')).toBe(1);
+            expect(mockOutputs.get('failed-count')).toBe(0);
+            expect(mockOutputs.get('report-path')).toBe(reportPath);
+        });
+
+        test('should warn about inputs smctl reported no result for', async () => {
+            const report = buildSigningReport('key', ['dist'], { exitCode: 0, stdout: '', stderr: '' }, options);
+
+            reportPath = await publishSigningReport(report);
+
+            expect(mockOutputs.get('signed-count')).toBe(0);
+            expect(core.warning).toHaveBeenCalledWith(expect.stringContaining('no result for 1 input(s), they are not counted: dist'));
+        });
+    });
+});
@@ -0,0 +1,53 @@
+/**
+ * Unit tests for signing_rules.ts
+ * Tests grouping the files to sign by signing rule
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from '@jest/globals';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { groupFilesByRule } from '../../src/signing_rules';
+import { resetMocks } from '../__mocks__/@actions/core';
+
+describe('signing_rules.ts', () => {
+    let tempDir: string;
+    let files: string[];
+
+    beforeEach(async () => {
+        resetMocks();
+        tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'signing-rules-test-'));
+        await fs.mkdir(path.join(tempDir, 'win'));
+        files = ['win/app.exe', 'win/lib.dll', 'core.JAR', 'notes.txt'].map(it => path.join(tempDir, it));
+        await Promise.all(files.map(it => fs.writeFile(it, 'content')));
+    });
+
+    afterEach(async () => {
+        await fs.rm(tempDir, { recursive: true, force: true });
+    });
+
+    test('should group files by extension and glob pattern', async () => {
+        const jar = { files: ['.jar'] };
+        const windows = { files: [`${tempDir}/win/*`] };
+
+        expect(await groupFilesByRule(files, [jar, windows])).toEqual([
+            { rule: jar, files: [files[2]] },
+            { rule: windows, files: [files[0], files[1]] },
+            { files: [files[3]] },
+        ]);
+    });
+
+    test('should apply the first matching rule', async () => {
+        const exe = { files: ['.exe'], keypairAlias: 'exe-key' };
+        const windows = { files: [`${tempDir}/win/*`], keypairAlias: 'win-key' };
+
+        const groups = await groupFilesByRule(files, [exe, windows]);
+
+        expect(groups[0]).toEqual({ rule: exe, files: [files[0]] });
+        expect(groups[1]).toEqual({ rule: windows, files: [files[1]] });
+    });
+
+    test('should leave out rules that match nothing', async () => {
+        expect(await groupFilesByRule(files, [{ files: ['.msi'] }])).toEqual([{ files }]);
+    });
+});
@@ -0,0 +1,134 @@
+/**
+ * Unit tests for smctl_keypair.ts
+ * Tests keypair lookup and parsing of smctl key/value output
+ */
+
+import { describe, test, expect, beforeEach, jest } from '@jest/globals';
+import {
+    findFingerprint,
+    getKeypairDetails,
+    normalizeFingerprint,
+    parseCertificateDetails,
+    parseKeyValueOutput
+} from '../../src/smctl_keypair';
+import * as cancellation from '../../src/cancellation';
+import { initActionConfig } from '../../src/action_config';
+import { mockInputs, resetMocks as resetCoreMocks } from '../__mocks__/@actions/core';
+import { getExecOutput, resetMocks as resetExecMocks } from '../__mocks__/@actions/exec';
+
+const mockedExec = getExecOutput as jest.Mock<typeof getExecOutput>;
+
+describe('smctl_keypair.ts', () => {
+    beforeEach(() => {
+        resetCoreMocks();
+        resetExecMocks();
+        initActionConfig();
+    });
+
+    describe('parseKeyValueOutput', () => {
+        test('should parse key/value lines with lowercase keys', () => {
+            const rv = parseKeyValueOutput('Alias: key1\r\nKey Type: RSA\nCertificate Fingerprint: AB:CD\n');
+
+            expect(rv.get('alias')).toBe('key1');
+            expect(rv.get('key type')).toBe('RSA');
+            expect(rv.get('certificate fingerprint')).toBe('AB:CD');
+        });
+
+        test('should keep colons inside values', () => {
+            const rv = parseKeyValueOutput('Valid From: 2026-01-01T00:00:00Z');
+
+            expect(rv.get('valid from')).toBe('2026-01-01T00:00:00Z');
+        });
+
+        test('should ignore lines without a key or value', () => {
+            const rv = parseKeyValueOutput('Keypair details\n: orphan\nEmpty:\n');
+
+            expect(rv.size).toBe(0);
+        });
+
+        test('should keep the first occurrence of a key', () => {
+            expect(parseKeyValueOutput('Alias: a\nAlias: b').get('alias')).toBe('a');
+        });
+    });
+
+    describe('fingerprints', () => {
+        test('should normalize separators and case', () => {
+            expect(normalizeFingerprint('AB:cd 01')).toBe('abcd01');
+        });
+
+        test('should find the fingerprint under any supported key', () => {
+            expect(findFingerprint(new Map([['thumbprint', 'AB CD']]))).toBe('abcd');
+            expect(findFingerprint(new Map([['fingerprint', 'ab:cd']]))).toBe('abcd');
+            expect(findFingerprint(new Map([['alias', 'x']]))).toBeUndefined();
+        });
+    });
+
+    describe('parseCertificateDetails', () => {
+        test('should pick the certificate fields', () => {
+            const rv = parseCertificateDetails(parseKeyValueOutput([
+                'Alias: key1',
+                'Key Type: RSA',
+                'Key Size: 3072',
+                'Status: ACTIVE',
+                'Certificate Subject: CN=Example Corp',
+                'Certificate Issuer: CN=DigiCert Trusted G4 Code Signing RSA4096 SHA384 2021 CA1',
+                'Valid From: 2026-01-01T00:00:00Z',
+                'Valid To: 2027-01-01T00:00:00Z',
+                'Certificate Fingerprint: AB:CD',
+            ].join('\n')));
+
+            expect(rv).toEqual({
+                fingerprint: 'abcd',
+                subject: 'CN=Example Corp',
+                issuer: 'CN=DigiCert Trusted G4 Code Signing RSA4096 SHA384 2021 CA1',
+                validFrom: new Date('2026-01-01T00:00:00Z'),
+                validTo: new Date('2027-01-01T00:00:00Z'),
+                keyAlgorithm: 'RSA',
+                keySize: 3072,
+                keypairStatus: 'ACTIVE',
+            });
+        });
+
+        test('should leave missing and unparseable fields undefined', () => {
+            const rv = parseCertificateDetails(parseKeyValueOutput('Alias: key1\nNot After: someday'));
+
+            expect(rv.subject).toBeUndefined();
+            expect(rv.validTo).toBeUndefined();
+        });
+    });
+
+    describe('getKeypairDetails', () => {
+        test('should query smctl for the keypair', async () => {
+            mockedExec.mockResolvedValue({ exitCode: 0, stdout: 'Alias: key1\nStatus: ACTIVE', stderr: '' });
+
+            const rv = await getKeypairDetails('key1', '/smctl');
+
+            expect(mockedExec).toHaveBeenCalledWith('/smctl', ['keypair', 'get', '--keypair-alias', 'key1'], {
+                ignoreReturnCode: true,
+                silent: true,
+            });
+            expect(rv.get('status')).toBe('ACTIVE');
+        });
+
+        test('should fail with the smctl error when the lookup fails', async () => {
+            mockedExec.mockResolvedValue({ exitCode: 1, stdout: '', stderr: 'Keypair not found\n' });
+
+            await expect(getKeypairDetails('missing')).rejects.toThrow(
+                'Failed to look up keypair missing (exit code 1): Keypair not found'
+            );
+        });
+
+        test('should limit the lookup to sign-timeout', async () => {
+            mockInputs.set('sign-timeout', '60');
+            initActionConfig();
+            const execWithTimeout = jest.spyOn(cancellation, 'execWithTimeout')
+                .mockRejectedValue(new cancellation.TimeoutError('/smctl keypair timed out after 60s'));
+
+            await expect(getKeypairDetails('key1', '/smctl')).rejects.toThrow('/smctl keypair timed out after 60s');
+            expect(execWithTimeout).toHaveBeenCalledWith('/smctl', ['keypair', 'get', '--keypair-alias', 'key1'], 60000, {
+                ignoreReturnCode: true,
+                silent: true,
+            });
+        });
+    });
+});
@@ -4,9 +4,16 @@
  */
 
 import { describe, test, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import * as core from '@actions/core';
 import { simplifiedSign } from '../../src/smctl_signing';
+import * as cancellation from '../../src/cancellation';
+import { initActionConfig } from '../../src/action_config';
 import { 
     mockInputs,
+    mockOutputs,
     resetMocks as resetCoreMocks 
 } from '../__mocks__/@actions/core';
 import { getExecOutput, resetMocks as resetExecMocks } from '../__mocks__/@actions/exec';
@@ -16,8 +23,10 @@ describe('smctl_signing.ts - Simplified Sign Command Tests', () => {
         resetCoreMocks();
         resetExecMocks();
         jest.clearAllMocks();
-        // Clear all inputs
+        // Clear all inputs, simplifiedSign only runs in simple-signing mode
         mockInputs.clear();
+        mockInputs.set('simple-signing-mode', 'true');
+        initActionConfig();
     });
 
     afterEach(() => {
@@ -28,6 +37,7 @@ describe('smctl_signing.ts - Simplified Sign Command Tests', () => {
     describe('Required Parameters', () => {
         test('should not execute when input is missing', async () => {
             mockInputs.set('keypair-alias', 'my-keypair');
+            initActionConfig();
 
             await simplifiedSign('/path/to/smctl');
 
@@ -37,6 +47,7 @@ describe('smctl_signing.ts - Simplified Sign Command Tests', () => {
 
         test('should not execute when keypair-alias is missing', async () => {
             mockInputs.set('input', '/path/to/file.exe');
+            initActionConfig();
 
             await simplifiedSign('/path/to/smctl');
 
@@ -54,6 +65,7 @@ describe('smctl_signing.ts - Simplified Sign Command Tests', () => {
         test('should not execute when input is empty string', async () => {
             mockInputs.set('input', '');
             mockInputs.set('keypair-alias', 'my-keypair');
+            initActionConfig();
 
             await simplifiedSign('/path/to/smctl');
 
@@ -64,6 +76,7 @@ describe('smctl_signing.ts - Simplified Sign Command Tests', () => {
         test('should not execute when keypair-alias is empty string', async () => {
             mockInputs.set('input', '/path/to/file.exe');
             mockInputs.set('keypair-alias', '');
+            initActionConfig();
 
             await simplifiedSign('/path/to/smctl');
 
@@ -81,6 +94,7 @@ describe('smctl_signing.ts - Simplified Sign Command Tests', () => {
             mockInputs.set('fail-fast', 'false');
             mockInputs.set('unsigned', 'false');
             mockInputs.set('bulk-sign-mode', 'false');
+            initActionConfig();
 
             (getExecOutput as jest.Mock<typeof getExecOutput>).mockResolvedValue({
                 exitCode: 0,
@@ -98,7 +112,7 @@ describe('smctl_signing.ts - Simplified Sign Command Tests', () => {
                 '--keypair-alias',
                 'my-keypair',
                 '--exit-non-zero-on-fail'
-            ]);
+            ], { ignoreReturnCode: true });
         });
 
         test('should use SMCTL constant when toolPath not provided', async () => {
@@ -109,6 +123,7 @@ describe('smctl_signing.ts - Simplified Sign Command Tests', () => {
             mockInputs.set('fail-fast', 'false');
             mockInputs.set('unsigned', 'false');
             mockInputs.set('bulk-sign-mode', 'false');
+            initActionConfig();
 
             (getExecOutput as jest.Mock<typeof getExecOutput>).mockResolvedValue({
                 exitCode: 0,
@@ -129,6 +144,7 @@ describe('smctl_signing.ts - Simplified Sign Command Tests', () => {
             mockInputs.set('input', 'app.exe');
             mockInputs.set('keypair-alias', 'key1');
             mockInputs.set('timestamp', 'true');
+            initActionConfig();
 
             (getExecOutput as jest.Mock<typeof getExecOutput>).mockResolvedValue({ exitCode: 0, stdout: '', stderr: '' });
 
@@ -142,6 +158,7 @@ describe('smctl_signing.ts - Simplified Sign Command Tests', () => {
             mockInputs.set('input', 'app.msi');
             mockInputs.set('keypair-alias', 'key2');
             mockInputs.set('timestamp', 'false');
+            initActionConfig();
 
             (getExecOutput as jest.Mock<typeof getExecOutput>).mockResolvedValue({ exitCode: 0, stdout: '', stderr: '' });
 
@@ -157,6 +174,7 @@ describe('smctl_signing.ts - Simplified Sign Command Tests', () => {
             mockInputs.set('input', 'binary.exe');
             mockInputs.set('keypair-alias', 'prod-key');
             mockInputs.set('digest-alg', 'SHA-256');
+            initActionConfig();
 
             (getExecOutput as jest.Mock<typeof getExecOutput>).mockResolvedValue({ exitCode: 0, stdout: '', stderr: '' });
 
@@ -172,6 +190,7 @@ describe('smctl_signing.ts - Simplified Sign Command Tests', () => {
             mockInputs.set('input', 'app.dll');
             mockInputs.set('keypair-alias', 'cert-key');
             mockInputs.set('digest-alg', 'SHA-512');
+            initActionConfig();
 
             (getExecOutput as jest.Mock<typeof getExecOutput>).mockResolvedValue({ exitCode: 0, stdout: '', stderr: '' });
 
@@ -185,6 +204,7 @@ describe('smctl_signing.ts - Simplified Sign Command Tests', () => {
         test('should not add digest algorithm when not provided', async () => {
             mockInputs.set('input', 'file.exe');
             mockInputs.set('keypair-alias', 'key');
+            initActionConfig();
 
             (getExecOutput as jest.Mock<typeof getExecOutput>).mockResolvedValue({ exitCode: 0, stdout: '', stderr: '' });
 
@@ -200,6 +220,7 @@ describe('smctl_signing.ts - Simplified Sign Command Tests', () => {
             mockInputs.set('input', 'test.exe');
             mockInputs.set('keypair-alias', 'test-key');
             mockInputs.set('zero-exit-code-on-failure', 'false');
+            initActionConfig();
 
             (getExecOutput as jest.Mock<typeof getExecOutput>).mockResolvedValue({ exitCode: 0, stdout: '', stderr: '' });
 
@@ -213,6 +234,7 @@ describe('smctl_signing.ts - Simplified Sign Command Tests', () => {
             mockInputs.set('input', 'app.exe');
             mockInputs.set('keypair-alias', 'my-key');
             mockInputs.set('zero-exit-code-on-failure', 'true');
+            initActionConfig();
 
             (getExecOutput as jest.Mock<typeof getExecOutput>).mockResolvedValue({ exitCode: 0, stdout: '', stderr: '' });
 
@@ -228,6 +250,7 @@ describe('smctl_signing.ts - Simplified Sign Command Tests', () => {
             mockInputs.set('input', '/dir/files');
             mockInputs.set('keypair-alias', 'dir-key');
             mockInputs.set('fail-fast', 'false');
+            initActionConfig();
 
             (getExecOutput as jest.Mock<typeof getExecOutput>).mockResolvedValue({ exitCode: 0, stdout: '', stderr: '' });
 
@@ -241,6 +264,7 @@ describe('smctl_signing.ts - Simplified Sign Command Tests', () => {
             mockInputs.set('input', '/directory');
             mockInputs.set('keypair-alias', 'batch-key');
             mockInputs.set('fail-fast', 'true');
+            initActionConfig();
 
             (getExecOutput as jest.Mock<typeof getExecOutput>).mockResolvedValue({ exitCode: 0, stdout: '', stderr: '' });
 
@@ -256,6 +280,7 @@ describe('smctl_signing.ts - Simplified Sign Command Tests', () => {
             mockInputs.set('input', 'signed.exe');
             mockInputs.set('keypair-alias', 'key1');
             mockInputs.set('unsigned', 'false');
+            initActionConfig();
 
             (getExecOutput as jest.Mock<typeof getExecOutput>).mockResolvedValue({ exitCode: 0, stdout: '', stderr: '' });
 
@@ -269,6 +294,7 @@ describe('smctl_signing.ts - Simplified Sign Command Tests', () => {
             mockInputs.set('input', 'unsigned-only.exe');
             mockInputs.set('keypair-alias', 'sign-key');
             mockInputs.set('unsigned', 'true');
+            initActionConfig();
 
             (getExecOutput as jest.Mock<typeof getExecOutput>).mockResolvedValue({ exitCode: 0, stdout: '', stderr: '' });
 
@@ -284,6 +310,7 @@ describe('smctl_signing.ts - Simplified Sign Command Tests', () => {
             mockInputs.set('input', 'single.exe');
             mockInputs.set('keypair-alias', 'key');
             mockInputs.set('bulk-sign-mode', 'false');
+            initActionConfig();
 
             (getExecOutput as jest.Mock<typeof getExecOutput>).mockResolvedValue({ exitCode: 0, stdout: '', stderr: '' });
 
@@ -297,6 +324,7 @@ describe('smctl_signing.ts - Simplified Sign Command Tests', () => {
             mockInputs.set('input', '/path/to/files');
             mockInputs.set('keypair-alias', 'bulk-key');
             mockInputs.set('bulk-sign-mode', 'true');
+            initActionConfig();
 
             (getExecOutput as jest.Mock<typeof getExecOutput>).mockResolvedValue({ exitCode: 0, stdout: '', stderr: '' });
 
@@ -317,6 +345,7 @@ describe('smctl_signing.ts - Simplified Sign Command Tests', () => {
             mockInputs.set('fail-fast', 'true');
             mockInputs.set('unsigned', 'true');
             mockInputs.set('bulk-sign-mode', 'true');
+            initActionConfig();
 
             (getExecOutput as jest.Mock<typeof getExecOutput>).mockResolvedValue({ exitCode: 0, stdout: '', stderr: '' });
 
@@ -335,7 +364,7 @@ describe('smctl_signing.ts - Simplified Sign Command Tests', () => {
                 '--failfast',
                 '--unsigned',
                 '--bulk'
-            ]);
+            ], { ignoreReturnCode: true });
         });
 
         test('should build command with selective optional parameters', async () => {
@@ -347,6 +376,7 @@ describe('smctl_signing.ts - Simplified Sign Command Tests', () => {
             mockInputs.set('fail-fast', 'true');
             mockInputs.set('unsigned', 'false');
             mockInputs.set('bulk-sign-mode', 'false');
+            initActionConfig();
 
             (getExecOutput as jest.Mock<typeof getExecOutput>).mockResolvedValue({ exitCode: 0, stdout: '', stderr: '' });
 
@@ -363,12 +393,13 @@ describe('smctl_signing.ts - Simplified Sign Command Tests', () => {
                 'SHA-256',
                 '--exit-non-zero-on-fail',
                 '--failfast'
-            ]);
+            ], { ignoreReturnCode: true });
         });
 
         test('should handle directory path with spaces in input', async () => {
             mockInputs.set('input', '/path/with spaces/to/files');
             mockInputs.set('keypair-alias', 'space-key');
+            initActionConfig();
 
             (getExecOutput as jest.Mock<typeof getExecOutput>).mockResolvedValue({ exitCode: 0, stdout: '', stderr: '' });
 
@@ -381,6 +412,7 @@ describe('smctl_signing.ts - Simplified Sign Command Tests', () => {
         test('should handle keypair-alias with special characters', async () => {
             mockInputs.set('input', 'file.exe');
             mockInputs.set('keypair-alias', 'prod-key-2024_v1.0');
+            initActionConfig();
 
             (getExecOutput as jest.Mock<typeof getExecOutput>).mockResolvedValue({ exitCode: 0, stdout: '', stderr: '' });
 
@@ -401,6 +433,7 @@ describe('smctl_signing.ts - Simplified Sign Command Tests', () => {
             mockInputs.set('fail-fast', 'true');
             mockInputs.set('unsigned', 'true');
             mockInputs.set('bulk-sign-mode', 'true');
+            initActionConfig();
 
             (getExecOutput as jest.Mock<typeof getExecOutput>).mockResolvedValue({ exitCode: 0, stdout: '', stderr: '' });
 
@@ -428,6 +461,7 @@ describe('smctl_signing.ts - Simplified Sign Command Tests', () => {
             mockInputs.set('input', 'app.msi');
             mockInputs.set('keypair-alias', 'msi-key');
             mockInputs.set('digest-alg', 'SHA-256');
+            initActionConfig();
 
             (getExecOutput as jest.Mock<typeof getExecOutput>).mockResolvedValue({ exitCode: 0, stdout: '', stderr: '' });
 
@@ -444,6 +478,7 @@ describe('smctl_signing.ts - Simplified Sign Command Tests', () => {
         test('should handle .exe file', async () => {
             mockInputs.set('input', 'application.exe');
             mockInputs.set('keypair-alias', 'exe-key');
+            initActionConfig();
 
             (getExecOutput as jest.Mock<typeof getExecOutput>).mockResolvedValue({ exitCode: 0, stdout: '', stderr: '' });
 
@@ -456,6 +491,7 @@ describe('smctl_signing.ts - Simplified Sign Command Tests', () => {
         test('should handle .dll file', async () => {
             mockInputs.set('input', 'library.dll');
             mockInputs.set('keypair-alias', 'dll-key');
+            initActionConfig();
 
             (getExecOutput as jest.Mock<typeof getExecOutput>).mockResolvedValue({ exitCode: 0, stdout: '', stderr: '' });
 
@@ -468,6 +504,7 @@ describe('smctl_signing.ts - Simplified Sign Command Tests', () => {
         test('should handle .msi file', async () => {
             mockInputs.set('input', 'installer.msi');
             mockInputs.set('keypair-alias', 'installer-key');
+            initActionConfig();
 
             (getExecOutput as jest.Mock<typeof getExecOutput>).mockResolvedValue({ exitCode: 0, stdout: '', stderr: '' });
 
@@ -481,6 +518,7 @@ describe('smctl_signing.ts - Simplified Sign Command Tests', () => {
             mockInputs.set('input', '/path/to/directory');
             mockInputs.set('keypair-alias', 'batch-key');
             mockInputs.set('bulk-sign-mode', 'true');
+            initActionConfig();
 
             (getExecOutput as jest.Mock<typeof getExecOutput>).mockResolvedValue({ exitCode: 0, stdout: '', stderr: '' });
 
@@ -494,6 +532,7 @@ describe('smctl_signing.ts - Simplified Sign Command Tests', () => {
         test('should handle Windows-style path', async () => {
             mockInputs.set('input', 'C:\\Program Files\\MyApp\\app.exe');
             mockInputs.set('keypair-alias', 'windows-key');
+            initActionConfig();
 
             (getExecOutput as jest.Mock<typeof getExecOutput>).mockResolvedValue({ exitCode: 0, stdout: '', stderr: '' });
 
@@ -506,6 +545,7 @@ describe('smctl_signing.ts - Simplified Sign Command Tests', () => {
         test('should handle relative path', async () => {
             mockInputs.set('input', './build/output.exe');
             mockInputs.set('keypair-alias', 'relative-key');
+            initActionConfig();
 
             (getExecOutput as jest.Mock<typeof getExecOutput>).mockResolvedValue({ exitCode: 0, stdout: '', stderr: '' });
 
@@ -521,6 +561,7 @@ describe('smctl_signing.ts - Simplified Sign Command Tests', () => {
             const longPath = '/very/long/path/'.repeat(20) + 'file.exe';
             mockInputs.set('input', longPath);
             mockInputs.set('keypair-alias', 'long-path-key');
+            initActionConfig();
 
             (getExecOutput as jest.Mock<typeof getExecOutput>).mockResolvedValue({ exitCode: 0, stdout: '', stderr: '' });
 
@@ -533,6 +574,7 @@ describe('smctl_signing.ts - Simplified Sign Command Tests', () => {
         test('should handle keypair-alias with hyphens and underscores', async () => {
             mockInputs.set('input', 'app.exe');
             mockInputs.set('keypair-alias', 'my-prod_key-2024_final');
+            initActionConfig();
 
             (getExecOutput as jest.Mock<typeof getExecOutput>).mockResolvedValue({ exitCode: 0, stdout: '', stderr: '' });
 
@@ -550,6 +592,7 @@ describe('smctl_signing.ts - Simplified Sign Command Tests', () => {
             mockInputs.set('fail-fast', 'false');
             mockInputs.set('unsigned', 'false');
             mockInputs.set('bulk-sign-mode', 'false');
+            initActionConfig();
 
             (getExecOutput as jest.Mock<typeof getExecOutput>).mockResolvedValue({ exitCode: 0, stdout: '', stderr: '' });
 
@@ -572,6 +615,7 @@ describe('smctl_signing.ts - Simplified Sign Command Tests', () => {
         test('should handle execution when smctl returns non-zero exit code', async () => {
             mockInputs.set('input', 'failing.exe');
             mockInputs.set('keypair-alias', 'fail-key');
+            initActionConfig();
 
             (getExecOutput as jest.Mock<typeof getExecOutput>).mockResolvedValue({
                 exitCode: 1,
@@ -579,10 +623,10 @@ describe('smctl_signing.ts - Simplified Sign Command Tests', () => {
                 stderr: 'Signing failed'
             });
 
-            // Should not throw, just execute
-            await simplifiedSign('/smctl');
+            await expect(simplifiedSign('/smctl')).rejects.toThrow('exit code 1');
 
             expect(getExecOutput).toHaveBeenCalled();
+            expect(mockOutputs.get('failed-count')).toBe(1);
         });
     });
 
@@ -596,6 +640,7 @@ describe('smctl_signing.ts - Simplified Sign Command Tests', () => {
             mockInputs.set('fail-fast', 'false');
             mockInputs.set('unsigned', 'false');
             mockInputs.set('bulk-sign-mode', 'false');
+            initActionConfig();
 
             (getExecOutput as jest.Mock<typeof getExecOutput>).mockResolvedValue({ exitCode: 0, stdout: 'Signed successfully', stderr: '' });
 
@@ -611,7 +656,7 @@ describe('smctl_signing.ts - Simplified Sign Command Tests', () => {
                 '--digalg',
                 'SHA-256',
                 '--exit-non-zero-on-fail'
-            ]);
+            ], { ignoreReturnCode: true });
         });
 
         test('should build command for batch signing unsigned files only', async () => {
@@ -623,6 +668,7 @@ describe('smctl_signing.ts - Simplified Sign Command Tests', () => {
             mockInputs.set('fail-fast', 'false');
             mockInputs.set('unsigned', 'true');
             mockInputs.set('bulk-sign-mode', 'true');
+            initActionConfig();
 
             (getExecOutput as jest.Mock<typeof getExecOutput>).mockResolvedValue({ exitCode: 0, stdout: '', stderr: '' });
 
@@ -640,7 +686,7 @@ describe('smctl_signing.ts - Simplified Sign Command Tests', () => {
                 '--exit-non-zero-on-fail',
                 '--unsigned',
                 '--bulk'
-            ]);
+            ], { ignoreReturnCode: true });
         });
 
         test('should build command for CI/CD pipeline with fail-fast enabled', async () => {
@@ -651,6 +697,7 @@ describe('smctl_signing.ts - Simplified Sign Command Tests', () => {
             mockInputs.set('fail-fast', 'true');
             mockInputs.set('unsigned', 'false');
             mockInputs.set('bulk-sign-mode', 'true');
+            initActionConfig();
 
             (getExecOutput as jest.Mock<typeof getExecOutput>).mockResolvedValue({ exitCode: 0, stdout: '', stderr: '' });
 
@@ -666,7 +713,7 @@ describe('smctl_signing.ts - Simplified Sign Command Tests', () => {
                 '--exit-non-zero-on-fail',
                 '--failfast',
                 '--bulk'
-            ]);
+            ], { ignoreReturnCode: true });
         });
 
         test('should build command for development signing without timestamp', async () => {
@@ -677,6 +724,7 @@ describe('smctl_signing.ts - Simplified Sign Command Tests', () => {
             mockInputs.set('fail-fast', 'false');
             mockInputs.set('unsigned', 'false');
             mockInputs.set('bulk-sign-mode', 'false');
+            initActionConfig();
 
             (getExecOutput as jest.Mock<typeof getExecOutput>).mockResolvedValue({ exitCode: 0, stdout: '', stderr: '' });
 
@@ -690,7 +738,478 @@ describe('smctl_signing.ts - Simplified Sign Command Tests', () => {
                 '--keypair-alias',
                 'dev-cert',
                 '--timestamp=false'
-            ]);
+            ], { ignoreReturnCode: true });
+        });
+    });
+    describe('Multiple Inputs and Glob Patterns', () => {
+        let tempDir: string;
+
+        beforeEach(async () => {
+            tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'smctl-signing-test-'));
+            await fs.writeFile(path.join(tempDir, 'app.exe'), 'exe');
+            await fs.writeFile(path.join(tempDir, 'lib.dll'), 'dll');
+            await fs.writeFile(path.join(tempDir, 'test-lib.dll'), 'dll');
+        });
+
+        afterEach(async () => {
+            await fs.rm(tempDir, { recursive: true, force: true });
+        });
+
+        test('should pass every resolved file as a separate --input in one invocation', async () => {
+            mockInputs.set('input', `${tempDir}/*.exe\n${tempDir}/*.dll\n!${tempDir}/test-*.dll`);
+            mockInputs.set('keypair-alias', 'multi-key');
+            mockInputs.set('timestamp', 'true');
+            mockInputs.set('fail-fast', 'false');
+            initActionConfig();
+
+            (getExecOutput as jest.Mock<typeof getExecOutput>).mockResolvedValue({ exitCode: 0, stdout: '', stderr: '' });
+
+            await simplifiedSign('/smctl');
+
+            expect(getExecOutput).toHaveBeenCalledTimes(1);
+            expect(getExecOutput).toHaveBeenCalledWith('/smctl', [
+                'sign',
+                '--simple',
+                '--input',
+                path.join(tempDir, 'app.exe'),
+                '--input',
+                path.join(tempDir, 'lib.dll'),
+                '--keypair-alias',
+                'multi-key',
+                '--exit-non-zero-on-fail'
+            ], { ignoreReturnCode: true });
+        });
+
+        test('should sign more than 100 files in batches', async () => {
+            for (let i = 0; i < 150; i++) {
+                await fs.writeFile(path.join(tempDir, `file${i}.exe`), 'exe');
+            }
+            mockInputs.set('input', `${tempDir}/file*.exe\n${tempDir}/app.exe`);
+            mockInputs.set('keypair-alias', 'multi-key');
+            mockInputs.set('fail-fast', 'false');
+            initActionConfig();
+            (getExecOutput as jest.Mock<typeof getExecOutput>).mockResolvedValue({ exitCode: 0, stdout: '', stderr: '' });
+
+            await simplifiedSign('/smctl');
+
+            const inputCounts = (getExecOutput as jest.Mock<typeof getExecOutput>).mock.calls
+                .map(call => (call[1] as string[]).filter(it => it === '--input').length);
+            expect(inputCounts).toEqual([100, 51]);
+        });
+
+        test('should keep every command line below the Windows limit', async () => {
+            const longDir = path.join(tempDir, 'x'.repeat(200));
+            await fs.mkdir(longDir);
+            for (let i = 0; i < 90; i++) {
+                await fs.writeFile(path.join(longDir, `${'y'.repeat(100)}${i}.exe`), 'exe');
+            }
+            mockInputs.set('input', `${longDir}/*.exe\n${tempDir}/app.exe`);
+            mockInputs.set('keypair-alias', 'multi-key');
+            mockInputs.set('fail-fast', 'false');
+            initActionConfig();
+            (getExecOutput as jest.Mock<typeof getExecOutput>).mockResolvedValue({ exitCode: 0, stdout: '', stderr: '' });
+
+            await simplifiedSign('/smctl');
+
+            const calls = (getExecOutput as jest.Mock<typeof getExecOutput>).mock.calls;
+            expect(calls.length).toBeGreaterThan(1);
+            for (const call of calls) {
+                expect(['/smctl', ...(call[1] as string[])].join(' ').length).toBeLessThan(24000);
+            }
+            expect(calls.flatMap(call => (call[1] as string[]).filter(it => it === '--input'))).toHaveLength(91);
+        });
+
+        test('should fail without signing when a pattern matches nothing', async () => {
+            mockInputs.set('input', `${tempDir}/*.exe\n${tempDir}/*.jar`);
+            mockInputs.set('keypair-alias', 'multi-key');
+            initActionConfig();
+
+            await expect(simplifiedSign('/smctl')).rejects.toThrow(`${tempDir}/*.jar`);
+            expect(getExecOutput).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('Signing Rules', () => {
+        let tempDir: string;
+
+        const mockedExec = getExecOutput as jest.Mock<any>;
+        const signedInputs = (call: number) => (mockedExec.mock.calls[call][1] as string[])
+            .filter((_, i, args) => args[i - 1] === '--input');
+
+        beforeEach(async () => {
+            tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'smctl-rules-test-'));
+            await fs.mkdir(path.join(tempDir, 'lib'));
+            await fs.writeFile(path.join(tempDir, 'app.exe'), 'exe');
+            await fs.writeFile(path.join(tempDir, 'lib', 'core.jar'), 'jar');
+            await fs.writeFile(path.join(tempDir, 'lib', 'native.dll'), 'dll');
+            await fs.writeFile(path.join(tempDir, 'README.txt'), 'txt');
+            await fs.writeFile(path.join(tempDir, 'signing.yml'), [
+                'version: 1',
+                'rules:',
+                '  - files: .jar',
+                '    keypair-alias: java-key',
+                '    timestamp: false',
+                `  - files: ${tempDir}/**/*.exe`,
+                '    digest-alg: SHA-384',
+            ].join('\n'));
+            mockInputs.set('config-file', path.join(tempDir, 'signing.yml'));
+            mockInputs.set('input', tempDir);
+            mockInputs.set('keypair-alias', 'default-key');
+            mockInputs.set('fail-fast', 'false');
+            initActionConfig();
+            mockedExec.mockImplementation(async (_tool: string, args: string[]) => ({
+                exitCode: 0,
+                stdout: args.filter((_, i) => args[i - 1] === '--input').map(it => `Successfully signed: ${it}`).join('\n'),
+                stderr: '',
+            }));
+        });
+
+        afterEach(async () => {
+            await fs.rm(tempDir, { recursive: true, force: true });
+        });
+
+        test('should run one smctl invocation per rule with its own options', async () => {
+            await simplifiedSign('/smctl');
+
+            expect(mockedExec).toHaveBeenCalledTimes(3);
+            expect(mockedExec).toHaveBeenNthCalledWith(1, '/smctl', [
+                'sign', '--simple', '--input', path.join(tempDir, 'lib', 'core.jar'),
+                '--keypair-alias', 'java-key', '--timestamp=false', '--exit-non-zero-on-fail'
+            ], { ignoreReturnCode: true });
+            expect(mockedExec).toHaveBeenNthCalledWith(2, '/smctl', [
+                'sign', '--simple', '--input', path.join(tempDir, 'app.exe'),
+                '--keypair-alias', 'default-key', '--digalg', 'SHA-384', '--exit-non-zero-on-fail'
+            ], { ignoreReturnCode: true });
+            expect(signedInputs(2)).toEqual([path.join(tempDir, 'lib', 'native.dll')]);
+            expect(mockedExec.mock.calls[2][1]).toContain('default-key');
+        });
+
+        test('should merge the results into one report', async () => {
+            const report = await simplifiedSign('/smctl');
+
+            expect(report?.keypairAlias).toBe('default-key');
+            expect(report?.signedCount).toBe(3);
+            expect(report?.files.find(it => it.path.endsWith('core.jar'))).toMatchObject({ keypairAlias: 'java-key', timestamped: false });
+            expect(report?.files.find(it => it.path.endsWith('app.exe'))).toMatchObject({ keypairAlias: 'default-key', digestAlgorithm: 'SHA-384' });
+            expect(mockOutputs.get('signed-count')).toBe(3);
+        });
+
+        test('should stop after a failing rule with fail-fast', async () => {
+            mockInputs.set('fail-fast', 'true');
+            initActionConfig();
+            mockedExec.mockResolvedValueOnce({ exitCode: 1, stdout: '', stderr: 'Error: 503 Service Unavailable' });
+
+            await expect(simplifiedSign('/smctl')).rejects.toThrow('smctl sign failed with exit code 1, 1 file(s) failed to sign');
+            expect(mockedExec).toHaveBeenCalledTimes(1);
+        });
+
+        test('should keep signing the other rules without fail-fast', async () => {
+            mockedExec.mockResolvedValueOnce({ exitCode: 1, stdout: '', stderr: 'Error: 503 Service Unavailable' });
+
+            await expect(simplifiedSign('/smctl')).rejects.toThrow('1 file(s) failed to sign');
+            expect(mockedExec).toHaveBeenCalledTimes(3);
+        });
+
+        test('should not sign files that are not signable', async () => {
+            await fs.rm(path.join(tempDir, 'lib', 'native.dll'));
+
+            const report = await simplifiedSign('/smctl');
+
+            expect(mockedExec).toHaveBeenCalledTimes(2);
+            expect(report?.files.map(it => path.basename(it.path)).sort()).toEqual(['app.exe', 'core.jar']);
+        });
+
+        test('should refuse to sign files without a keypair', async () => {
+            mockInputs.delete('keypair-alias');
+            initActionConfig();
+
+            await expect(simplifiedSign('/smctl')).rejects.toThrow('keypair-alias is not set and no signing rule with a keypair-alias matches 2 file(s)');
+            expect(mockedExec).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('Parallel Signing', () => {
+        let tempDir: string;
+        let files: string[];
+
+        const mockedExec = getExecOutput as jest.Mock<any>;
+        const signedInputs = (call: number) => (mockedExec.mock.calls[call][1] as string[])
+            .filter((_, i, args) => args[i - 1] === '--input');
+
+        beforeEach(async () => {
+            tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'smctl-parallel-test-'));
+            files = [];
+            for (let i = 0; i < 16; i++) {
+                files.push(path.join(tempDir, `app${String(i).padStart(2, '0')}.exe`));
+                await fs.writeFile(files[i], 'exe');
+            }
+            mockInputs.set('input', tempDir);
+            mockInputs.set('keypair-alias', 'release-key');
+            mockInputs.set('concurrency', '2');
+            initActionConfig();
+            mockedExec.mockImplementation(async (_tool: string, args: string[]) => ({
+                exitCode: 0,
+                stdout: args.filter((_, i) => args[i - 1] === '--input').map(it => `Successfully signed: ${it}`).join('\n'),
+                stderr: '',
+            }));
+        });
+
+        afterEach(async () => {
+            await fs.rm(tempDir, { recursive: true, force: true });
+        });
+
+        test('should sign the files in chunks', async () => {
+            await simplifiedSign('/smctl');
+
+            // 16 files for 2 workers, 4 chunks each
+            expect(mockedExec).toHaveBeenCalledTimes(8);
+            const signed = mockedExec.mock.calls.flatMap((_, i) => signedInputs(i));
+            expect(signed.sort()).toEqual(files);
+            expect(signedInputs(0)).toHaveLength(2);
+        });
+
+        test('should only sign the signable files of a directory', async () => {
+            await fs.writeFile(path.join(tempDir, 'README.txt'), 'txt');
+            await fs.writeFile(path.join(tempDir, 'app00.exe.map'), 'map');
+            await fs.writeFile(path.join(tempDir, 'appsettings.json'), '{}');
+
+            await simplifiedSign('/smctl');
+
+            const signed = mockedExec.mock.calls.flatMap((_, i) => signedInputs(i));
+            expect(signed.sort()).toEqual(files);
+        });
+
+        test('should cap the chunks at 100 files', async () => {
+            for (let i = files.length; i < 850; i++) {
+                files.push(path.join(tempDir, `app${String(i).padStart(3, '0')}.dll`));
+                await fs.writeFile(files[i], 'dll');
+            }
+
+            await simplifiedSign('/smctl');
+
+            // 850 files for 2 workers would make chunks of 107 files, split again by the batching
+            expect(mockedExec).toHaveBeenCalledTimes(9);
+            expect(mockedExec.mock.calls.map((_, i) => signedInputs(i).length)).toEqual([100, 100, 100, 100, 100, 100, 100, 100, 50]);
+        });
+
+        test('should run at most concurrency smctl processes at once', async () => {
+            let running = 0;
+            let maxRunning = 0;
+            mockedExec.mockImplementation(async (_tool: string, args: string[]) => {
+                maxRunning = Math.max(maxRunning, ++running);
+                await new Promise(resolve => setTimeout(resolve, 5));
+                running--;
+                return { exitCode: 0, stdout: '', stderr: '' };
+            });
+
+            await simplifiedSign('/smctl');
+
+            expect(maxRunning).toBe(2);
+        });
+
+        test('should merge the results of the chunks into one report', async () => {
+            const report = await simplifiedSign('/smctl');
+
+            expect(report?.signedCount).toBe(16);
+            expect(report?.files.map(it => it.path)).toEqual(files);
+            expect(mockOutputs.get('signed-count')).toBe(16);
+        });
+
+        test('should not start further chunks after a failure with fail-fast', async () => {
+            mockedExec.mockResolvedValueOnce({ exitCode: 1, stdout: '', stderr: 'Error: 503 Service Unavailable' });
+
+            await expect(simplifiedSign('/smctl')).rejects.toThrow('smctl sign failed with exit code 1, 2 file(s) failed to sign');
+            // The second worker finishes the chunk it already started
+            expect(mockedExec).toHaveBeenCalledTimes(2);
+            expect(core.warning).toHaveBeenCalledWith('Signing stopped by fail-fast, 12 file(s) were not signed');
+        });
+
+        test('should sign every chunk without fail-fast', async () => {
+            mockInputs.set('fail-fast', 'false');
+            initActionConfig();
+            mockedExec.mockResolvedValueOnce({ exitCode: 1, stdout: '', stderr: 'Error: 503 Service Unavailable' });
+
+            await expect(simplifiedSign('/smctl')).rejects.toThrow('2 file(s) failed to sign');
+            expect(mockedExec).toHaveBeenCalledTimes(8);
+        });
+    });
+
+    describe('Retrying Failed Files', () => {
+        let tempDir: string;
+        let a: string, b: string, c: string;
+
+        const mockedExec = getExecOutput as jest.Mock<any>;
+        const signedInputs = (call: number) => (mockedExec.mock.calls[call][1] as string[])
+            .filter((_, i, args) => args[i - 1] === '--input');
+        const smctlOutput = (signed: string[], failed: string[]) => ({
+            exitCode: failed.length > 0 ? 1 : 0,
+            stdout: [
+                ...signed.map(it => `Successfully signed: ${it}`),
+                ...failed.map(it => `Failed to sign: ${it}: 503 Service Unavailable`),
+            ].join('\n'),
+            stderr: '',
+        });
+
+        beforeEach(async () => {
+            tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'smctl-retry-test-'));
+            [a, b, c] = ['a.exe', 'b.exe', 'c.exe'].map(it => path.join(tempDir, it));
+            for (const file of [a, b, c]) {
+                await fs.writeFile(file, 'exe');
+            }
+            mockInputs.set('input', [a, b, c].join('\n'));
+            mockInputs.set('keypair-alias', 'release-key');
+            mockInputs.set('fail-fast', 'false');
+            mockInputs.set('sign-retries', '2');
+            initActionConfig();
+            // Skip the backoff delays
+            jest.spyOn(global, 'setTimeout').mockImplementation(((callback: () => void) => {
+                callback();
+                return 0;
+            }) as any);
+        });
+
+        afterEach(async () => {
+            await fs.rm(tempDir, { recursive: true, force: true });
+        });
+
+        test('should sign only the failed files again', async () => {
+            mockedExec
+                .mockResolvedValueOnce(smctlOutput([a], [b, c]))
+                .mockResolvedValueOnce(smctlOutput([b, c], []));
+
+            const report = await simplifiedSign('/smctl');
+
+            expect(mockedExec).toHaveBeenCalledTimes(2);
+            expect(signedInputs(1)).toEqual([b, c]);
+            expect(report).toMatchObject({ exitCode: 0, signedCount: 3, failedCount: 0 });
+            expect(report?.files.map(it => [it.path, it.attempts])).toEqual([[a, undefined], [b, 2], [c, 2]]);
+        });
+
+        test('should fail with the files still failing after the last retry', async () => {
+            mockedExec
+                .mockResolvedValueOnce(smctlOutput([a], [b, c]))
+                .mockResolvedValueOnce(smctlOutput([b], [c]))
+                .mockResolvedValueOnce(smctlOutput([], [c]));
+
+            await expect(simplifiedSign('/smctl')).rejects.toThrow('smctl sign failed with exit code 1, 1 file(s) failed to sign');
+            expect(mockedExec).toHaveBeenCalledTimes(3);
+            expect(signedInputs(2)).toEqual([c]);
+            expect(mockOutputs.get('signed-count')).toBe(2);
+        });
+
+        test('should not retry without sign-retries', async () => {
+            mockInputs.delete('sign-retries');
+            initActionConfig();
+            mockedExec.mockResolvedValueOnce(smctlOutput([a], [b, c]));
+
+            await expect(simplifiedSign('/smctl')).rejects.toThrow('2 file(s) failed to sign');
+            expect(mockedExec).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    describe('Sign Timeout', () => {
+        beforeEach(() => {
+            mockInputs.set('input', '/path/to/file.exe');
+            mockInputs.set('keypair-alias', 'release-key');
+            initActionConfig();
+        });
+
+        test('should run smctl with sign-timeout', async () => {
+            mockInputs.set('sign-timeout', '900');
+            initActionConfig();
+            const execWithTimeout = jest.spyOn(cancellation, 'execWithTimeout')
+                .mockResolvedValue({ exitCode: 0, stdout: '', stderr: '' });
+
+            await simplifiedSign('/smctl');
+
+            expect(execWithTimeout).toHaveBeenCalledWith('/smctl', expect.arrayContaining(['sign']), 900000, { ignoreReturnCode: true });
+        });
+
+        test('should fail with the timeout of the smctl process', async () => {
+            mockInputs.set('sign-timeout', '900');
+            initActionConfig();
+            jest.spyOn(cancellation, 'execWithTimeout')
+                .mockRejectedValue(new cancellation.TimeoutError('/smctl sign timed out after 900s'));
+
+            await expect(simplifiedSign('/smctl')).rejects.toThrow('/smctl sign timed out after 900s');
+        });
+    });
+
+    describe('Dry Run', () => {
+        const savedEnv = { ...process.env };
+        let tempDir: string;
+
+        beforeEach(async () => {
+            tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'smctl-dry-run-test-'));
+            await fs.writeFile(path.join(tempDir, 'app.exe'), 'exe');
+            await fs.writeFile(path.join(tempDir, 'lib.dll'), 'dll');
+            mockInputs.set('dry-run', 'true');
+            mockInputs.set('input', tempDir);
+            mockInputs.set('keypair-alias', 'release-key');
+            initActionConfig();
+            process.env['SM_HOST'] = 'https://clientauth.one.digicert.com';
+            process.env['SM_API_KEY'] = 'api-key-secret';
+            delete process.env['SM_CLIENT_CERT_PASSWORD'];
+        });
+
+        afterEach(async () => {
+            process.env = { ...savedEnv };
+            await fs.rm(tempDir, { recursive: true, force: true });
+        });
+
+        test('should print the command line and the files without signing', async () => {
+            await expect(simplifiedSign('/smctl')).resolves.toBeUndefined();
+
+            const logged = (core.info as jest.Mock).mock.calls.map(it => it[0]).join('\n');
+            expect(getExecOutput).not.toHaveBeenCalled();
+            expect(logged).toContain(`/smctl sign --simple --input ${tempDir} --keypair-alias release-key --exit-non-zero-on-fail --failfast`);
+            expect(logged).toContain(`\t${path.join(tempDir, 'app.exe')}`);
+            expect(logged).toContain(`\t${path.join(tempDir, 'lib.dll')}`);
+            expect(logged).toContain('Dry run: 2 file(s) would be signed');
+            expect(logged).toContain('smctl picks the files of the 1 directory input(s) itself');
+            expect(mockOutputs.size).toBe(0);
+        });
+
+        test('should list and count only the files that are signed', async () => {
+            await fs.writeFile(path.join(tempDir, 'README.txt'), 'txt');
+            await fs.writeFile(path.join(tempDir, 'lib.dll.map'), 'map');
+            mockInputs.set('concurrency', '2');
+            mockInputs.set('fail-fast', 'false');
+            initActionConfig();
+
+            await simplifiedSign('/smctl');
+
+            const logged = (core.info as jest.Mock).mock.calls.map(it => it[0]).join('\n');
+            expect(logged).not.toContain('README.txt');
+            expect(logged).not.toContain('lib.dll.map');
+            expect(logged).toContain('Dry run: 2 file(s) would be signed');
+        });
+
+        test('should list files whose names look like glob patterns', async () => {
+            await fs.writeFile(path.join(tempDir, 'app[x64].exe'), 'exe');
+            mockInputs.set('input', `${tempDir}/*.exe`);
+            initActionConfig();
+
+            await simplifiedSign('/smctl');
+
+            const logged = (core.info as jest.Mock).mock.calls.map(it => it[0]).join('\n');
+            expect(logged).toContain(`\t${path.join(tempDir, 'app[x64].exe')}`);
+            expect(logged).toContain('Dry run: 2 file(s) would be signed');
+        });
+
+        test('should redact the secrets smctl would read', async () => {
+            await simplifiedSign('/smctl');
+
+            const logged = (core.info as jest.Mock).mock.calls.map(it => it[0]).join('\n');
+            expect(logged).toContain('SM_HOST=https://clientauth.one.digicert.com SM_API_KEY=*** SM_CLIENT_CERT_FILE=<not set> SM_CLIENT_CERT_PASSWORD=<not set>');
+            expect(logged).not.toContain('api-key-secret');
+        });
+
+        test('should still fail on inputs that match nothing', async () => {
+            mockInputs.set('input', `${tempDir}/*.msi`);
+            initActionConfig();
+
+            await expect(simplifiedSign('/smctl')).rejects.toThrow(`${tempDir}/*.msi`);
         });
     });
 });
@@ -0,0 +1,136 @@
+/**
+ * Unit tests for tool_manifest.ts
+ * Tests validation against schemas/tool-manifest.schema.json and loading of the tool manifest published on the CDN
+ */
+
+import { describe, test, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import * as tc from '@actions/tool-cache';
+import { loadToolManifest, validateToolManifest } from '../../src/tool_manifest';
+import { initActionConfig } from '../../src/action_config';
+import { resetMocks as resetCoreMocks } from '../__mocks__/@actions/core';
+import { cleanupMockTempDirs, resetMocks as resetToolCacheMocks } from '../__mocks__/@actions/tool-cache';
+
+const smctlEntry = {
+    name: 'smctl',
+    dlName: 'smctl',
+    fName: 'smctl',
+    toolType: 'EXECUTABLE',
+    archiveType: 'FILE',
+    versionFlag: '-v',
+    executePermissionRequired: true,
+    sha256: 'a'.repeat(64),
+    size: 1024,
+};
+
+describe('tool_manifest.ts', () => {
+    beforeEach(() => {
+        resetCoreMocks();
+        resetToolCacheMocks();
+        initActionConfig();
+    });
+
+    afterEach(async () => {
+        await cleanupMockTempDirs();
+        jest.restoreAllMocks();
+    });
+
+    describe('validateToolManifest', () => {
+        test('should accept a valid manifest', () => {
+            expect(validateToolManifest({ schemaVersion: 1, tools: { 'smctl-linux-x64': smctlEntry } })).toEqual([]);
+        });
+
+        test('should reject non-object manifests', () => {
+            expect(validateToolManifest([])).toEqual(['the manifest must be object']);
+            expect(validateToolManifest(null)).toEqual(['the manifest must be object']);
+        });
+
+        test('should report every violation', () => {
+            const errors = validateToolManifest({
+                schemaVersion: 2,
+                tools: {
+                    'Bad Key': { ...smctlEntry },
+                    'smctl-linux-arm64': {
+                        ...smctlEntry,
+                        dlName: '../smctl',
+                        archiveType: 'RAR',
+                        sha256: 'xyz',
+                        size: -1,
+                        extra: true,
+                    },
+                    'smctk-darwin-x64': { name: 'smctk' },
+                },
+            });
+
+            expect(errors).toEqual([
+                'schemaVersion must be 1',
+                'tools: key "Bad Key" is not a platform key such as smctl-linux-x64',
+                'tools.smctl-linux-arm64: unknown key extra',
+                'tools.smctl-linux-arm64.dlName "../smctl" is not a file name',
+                'tools.smctl-linux-arm64.archiveType must be one of FILE, DMG, MSI, TAR, ZIP, found "RAR"',
+                'tools.smctl-linux-arm64.sha256 "xyz" is not a hex encoded SHA-256 checksum',
+                'tools.smctl-linux-arm64.size must be >= 1',
+                'tools.smctk-darwin-x64 is missing the required key dlName',
+                'tools.smctk-darwin-x64 is missing the required key fName',
+                'tools.smctk-darwin-x64 is missing the required key toolType',
+                'tools.smctk-darwin-x64 is missing the required key archiveType',
+            ]);
+        });
+
+        test('should require the tools object', () => {
+            expect(validateToolManifest({ schemaVersion: 1 })).toEqual(['the manifest is missing the required key tools']);
+        });
+    });
+
+    describe('loadToolManifest', () => {
+        let tempDir: string;
+
+        beforeEach(async () => {
+            tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'tool-manifest-test-'));
+        });
+
+        afterEach(async () => {
+            await fs.rm(tempDir, { recursive: true, force: true });
+        });
+
+        async function serveManifest(content: string) {
+            const manifestPath = path.join(tempDir, 'manifest.json');
+            await fs.writeFile(manifestPath, content);
+            return jest.spyOn(tc, 'downloadTool').mockResolvedValue(manifestPath);
+        }
+
+        test('should download and parse the manifest once per location', async () => {
+            const spy = await serveManifest(JSON.stringify({ schemaVersion: 1, tools: { 'smctl-linux-x64': smctlEntry } }));
+
+            const first = await loadToolManifest('https://cdn.example.com/load-once');
+            const second = await loadToolManifest('https://cdn.example.com/load-once');
+
+            expect(first?.tools['smctl-linux-x64'].sha256).toBe('a'.repeat(64));
+            expect(second).toBe(first);
+            expect(spy).toHaveBeenCalledTimes(1);
+            expect(spy).toHaveBeenCalledWith('https://cdn.example.com/load-once/manifest.json');
+        });
+
+        test('should return undefined when no manifest is published', async () => {
+            jest.spyOn(tc, 'downloadTool').mockRejectedValue(new Error('Unexpected HTTP response: 404'));
+
+            await expect(loadToolManifest('https://cdn.example.com/missing')).resolves.toBeUndefined();
+        });
+
+        test('should fail on a manifest that is not JSON', async () => {
+            await serveManifest('<html>');
+
+            await expect(loadToolManifest('https://cdn.example.com/not-json')).rejects.toThrow('is not valid JSON');
+        });
+
+        test('should fail on a manifest that does not match the schema', async () => {
+            await serveManifest(JSON.stringify({ schemaVersion: 1, tools: { 'smctl-linux-x64': { name: 'smctl' } } }));
+
+            await expect(loadToolManifest('https://cdn.example.com/invalid')).rejects.toThrow(
+                'tools.smctl-linux-x64 is missing the required key dlName'
+            );
+        });
+    });
+});
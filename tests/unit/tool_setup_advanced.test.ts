@@ -7,8 +7,13 @@ import { describe, test, expect, beforeEach, afterEach, jest } from '@jest/globa
 import * as path from 'path';
 import * as fs from 'fs/promises';
 import * as os from 'os';
+import * as crypto from 'crypto';
+import * as core from '@actions/core';
+import * as tc from '@actions/tool-cache';
 import { setupTool, SMCTL, SMTOOLS, SMPKCS11 } from '../../src/tool_setup';
 import * as utils from '../../src/utils';
+import * as jobSummary from '../../src/job_summary';
+import { initActionConfig } from '../../src/action_config';
 import { 
     mockInputs, 
     mockOutputs,
@@ -25,8 +30,9 @@ import { getExecOutput, resetMocks as resetExecMocks } from '../__mocks__/@actio
 // Increase timeout for integration-style tests
 jest.setTimeout(60000);
 
-// Mock calculateSHA256 for security fix tests
-jest.spyOn(utils, 'calculateSHA256');
+// Spy on calculateChecksum for security fix tests
+const calculateChecksum = utils.calculateChecksum;
+jest.spyOn(utils, 'calculateChecksum');
 
 describe('tool_setup.ts - Advanced Coverage Tests', () => {
 
@@ -43,9 +49,10 @@ describe('tool_setup.ts - Advanced Coverage Tests', () => {
         mockInputs.set('use-binary-sha256-checksum', 'false');
         mockInputs.set('use-github-caching-service', 'false');
         mockInputs.set('simple-signing-mode', 'false');
+        initActionConfig();
         
-        // Mock calculateSHA256 to return 'mock' checksum by default
-        jest.spyOn(utils, 'calculateSHA256').mockImplementation(async () => 'mock');
+        // Hash the mock downloads for real by default, they match the mock .sha256 files
+        jest.spyOn(utils, 'calculateChecksum').mockImplementation(calculateChecksum);
     });
 
     afterEach(() => {
@@ -62,6 +69,7 @@ describe('tool_setup.ts - Advanced Coverage Tests', () => {
             }
 
             mockInputs.set('use-github-caching-service', 'false');
+            initActionConfig();
             
             // Setup SMTOOLS which needs PKCS11 config
             await setupTool(SMTOOLS);
@@ -81,6 +89,7 @@ describe('tool_setup.ts - Advanced Coverage Tests', () => {
             }
 
             mockInputs.set('use-github-caching-service', 'false');
+            initActionConfig();
             
             // Setup SMTOOLS which needs PKCS11 config
             await setupTool(SMTOOLS);
@@ -110,6 +119,7 @@ describe('tool_setup.ts - Advanced Coverage Tests', () => {
     describe('Cache Version Handling', () => {
         test('should use cache-version from input', async () => {
             mockInputs.set('cache-version', '2.0.0');
+            initActionConfig();
             
             await setupTool(SMCTL);
             
@@ -119,6 +129,7 @@ describe('tool_setup.ts - Advanced Coverage Tests', () => {
 
         test('should use binary sha256 checksum when enabled', async () => {
             mockInputs.set('use-binary-sha256-checksum', 'true');
+            initActionConfig();
             
             // This should attempt to download .sha256 file
             const result = await setupTool(SMCTL);
@@ -130,12 +141,29 @@ describe('tool_setup.ts - Advanced Coverage Tests', () => {
         test('should fallback to cache-version when sha256 download fails', async () => {
             mockInputs.set('use-binary-sha256-checksum', 'true');
             mockInputs.set('cache-version', '3.0.0');
+            initActionConfig();
             
             // Mock will fail to download sha256, should fallback
             await setupTool(SMCTL);
             
             expect(mockInputs.get('cache-version')).toBe('3.0.0');
         });
+
+        test('should reject a malformed checksum file instead of caching by it', async () => {
+            mockInputs.set('use-binary-sha256-checksum', 'true');
+            initActionConfig();
+            (tc.downloadTool as jest.Mock<typeof tc.downloadTool>).mockImplementationOnce(async url => {
+                const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'malformed-sha256-'));
+                const checksumPath = path.join(dir, 'smctl.sha256');
+                await fs.writeFile(checksumPath, '<html><body>Service Unavailable</body></html>');
+                downloadedFiles.set(url, checksumPath);
+                return checksumPath;
+            });
+
+            await expect(setupTool(SMCTL)).rejects.toThrow(/^Invalid checksum file https:\/\/.*\.sha256: Malformed checksum file/);
+            expect(cachedTools.get(SMCTL)).toBeUndefined();
+            await fs.rm(path.dirname(downloadedFiles.values().next().value!), { recursive: true, force: true });
+        });
     });
 
     describe('Platform-Specific Tool Setup', () => {
@@ -206,6 +234,258 @@ describe('tool_setup.ts - Advanced Coverage Tests', () => {
         });
     });
 
+    describe('Pinned Tool Version', () => {
+        test('should download from the versioned CDN path and cache by tool-version', async () => {
+            mockInputs.set('tool-version', '1.45.0');
+            initActionConfig();
+            (getExecOutput as jest.Mock<typeof getExecOutput>).mockResolvedValue({
+                exitCode: 0,
+                stdout: 'smctl version 1.45.0',
+                stderr: ''
+            });
+
+            await setupTool(SMCTL);
+
+            const urls = Array.from(downloadedFiles.keys());
+            expect(urls).toHaveLength(1);
+            expect(urls[0]).toMatch(/^https:\/\/pki-downloads\.digicert\.com\/stm\/1\.45\.0\//);
+            expect(cachedTools.get(SMCTL)?.has('1.45.0')).toBe(true);
+        });
+
+        test('should fail when smctl reports a different version', async () => {
+            mockInputs.set('tool-version', '1.45');
+            initActionConfig();
+            (getExecOutput as jest.Mock<typeof getExecOutput>).mockResolvedValue({
+                exitCode: 0,
+                stdout: 'smctl version 1.46.0',
+                stderr: ''
+            });
+
+            await expect(setupTool(SMCTL)).rejects.toThrow(
+                'smctl version mismatch: requested tool-version 1.45 but smctl -v reported 1.46.0'
+            );
+        });
+
+        test('should fail when the version check itself fails', async () => {
+            mockInputs.set('tool-version', '1.45.0');
+            initActionConfig();
+            (getExecOutput as jest.Mock<typeof getExecOutput>).mockRejectedValue(new Error('Version check failed'));
+
+            await expect(setupTool(SMCTL)).rejects.toThrow('reported no version');
+        });
+
+        test('should reject an invalid tool-version before downloading', () => {
+            mockInputs.set('tool-version', '../1.0');
+
+            expect(() => initActionConfig()).toThrow('Invalid tool-version');
+            expect(downloadedFiles.size).toBe(0);
+        });
+    });
+
+    describe('Tool Manifest', () => {
+        const platformKey = `smctl-${process.platform}-${process.arch}`;
+        const checksum = 'b'.repeat(64);
+        const manifestDirs: string[] = [];
+
+        function publishManifest(entry: Record<string, unknown>) {
+            (tc.downloadTool as jest.Mock<typeof tc.downloadTool>).mockImplementationOnce(async url => {
+                const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'manifest-test-'));
+                manifestDirs.push(dir);
+                const manifestPath = path.join(dir, 'manifest.json');
+                await fs.writeFile(manifestPath, JSON.stringify({ schemaVersion: 1, tools: { [platformKey]: entry } }));
+                downloadedFiles.set(url, manifestPath);
+                return manifestPath;
+            });
+        }
+
+        const smctlEntry = {
+            name: 'smctl',
+            dlName: 'smctl-next',
+            fName: 'smctl',
+            toolType: 'EXECUTABLE',
+            archiveType: 'FILE',
+            executePermissionRequired: true,
+            sha256: checksum,
+            size: 'Mock download content'.length,
+        };
+
+        beforeEach(() => {
+            mockInputs.set('use-tool-manifest', 'true');
+            initActionConfig();
+        });
+
+        afterEach(async () => {
+            for (const dir of manifestDirs.splice(0)) {
+                await fs.rm(dir, { recursive: true, force: true });
+            }
+        });
+
+        test('should download the tool named by the manifest and verify its checksum', async () => {
+            const cdn = 'https://pki-downloads.digicert.com/stm/manifest-override';
+            mockInputs.set('digicert-cdn', cdn);
+            initActionConfig();
+            publishManifest(smctlEntry);
+            jest.spyOn(utils, 'calculateChecksum').mockImplementation(async () => checksum);
+
+            await setupTool(SMCTL);
+
+            expect(Array.from(downloadedFiles.keys())).toEqual([`${cdn}/manifest.json`, `${cdn}/smctl-next`]);
+            expect(utils.calculateChecksum).toHaveBeenCalled();
+        });
+
+        test('should fail when the download does not match the manifest checksum', async () => {
+            mockInputs.set('digicert-cdn', 'https://pki-downloads.digicert.com/stm/manifest-checksum');
+            initActionConfig();
+            publishManifest(smctlEntry);
+
+            await expect(setupTool(SMCTL)).rejects.toThrow('SHA-256 checksum verification failed for smctl');
+        });
+
+        test('should fail when the download does not match the manifest size', async () => {
+            mockInputs.set('digicert-cdn', 'https://pki-downloads.digicert.com/stm/manifest-size');
+            initActionConfig();
+            publishManifest({ ...smctlEntry, size: 1 });
+
+            await expect(setupTool(SMCTL)).rejects.toThrow('Size verification failed for smctl: expected 1 bytes');
+        });
+
+        test('should use the manifest checksum as cache version', async () => {
+            mockInputs.set('digicert-cdn', 'https://pki-downloads.digicert.com/stm/manifest-version');
+            mockInputs.set('use-binary-sha256-checksum', 'true');
+            initActionConfig();
+            publishManifest(smctlEntry);
+            jest.spyOn(utils, 'calculateChecksum').mockImplementation(async () => checksum);
+
+            await setupTool(SMCTL);
+
+            expect(cachedTools.get(SMCTL)?.has(`0.0.0-${checksum}`)).toBe(true);
+            expect(Array.from(downloadedFiles.keys()).some(url => url.endsWith('.sha256'))).toBe(false);
+        });
+
+        test('should use the built-in definitions when no manifest is published', async () => {
+            const cdn = 'https://pki-downloads.digicert.com/stm/no-manifest';
+            mockInputs.set('digicert-cdn', cdn);
+            initActionConfig();
+            (tc.downloadTool as jest.Mock<typeof tc.downloadTool>).mockRejectedValueOnce(new Error('Unexpected HTTP response: 404'));
+
+            await setupTool(SMCTL);
+
+            expect(Array.from(downloadedFiles.keys())).toHaveLength(1);
+            expect(Array.from(downloadedFiles.keys())[0]).not.toContain('smctl-next');
+        });
+    });
+
+    describe('Offline Tools Source', () => {
+        let mirrorDir: string;
+
+        beforeEach(async () => {
+            mirrorDir = await fs.mkdtemp(path.join(os.tmpdir(), 'tools-mirror-'));
+        });
+
+        afterEach(async () => {
+            await fs.rm(mirrorDir, { recursive: true, force: true });
+        });
+
+        test('should install from tools-source-dir and verify the local checksum file', async () => {
+            if (process.platform !== 'linux' || process.arch !== 'x64') {
+                console.log('Skipping linux-x64 mirror test');
+                return;
+            }
+            const checksum = 'c'.repeat(64);
+            await fs.writeFile(path.join(mirrorDir, 'smctl'), 'smctl binary');
+            await fs.writeFile(path.join(mirrorDir, 'smctl.sha256'), `${checksum}  smctl\n`);
+            mockInputs.set('tools-source-dir', mirrorDir);
+            mockInputs.set('use-binary-sha256-checksum', 'true');
+            initActionConfig();
+            jest.spyOn(utils, 'calculateChecksum').mockImplementation(async () => checksum);
+
+            await setupTool(SMCTL);
+
+            expect(tc.downloadTool).not.toHaveBeenCalled();
+            expect(cachedTools.get(SMCTL)?.has(`0.0.0-${checksum}`)).toBe(true);
+            expect(await fs.readFile(path.join(mirrorDir, 'smctl'), 'utf-8')).toBe('smctl binary');
+        });
+
+        test('should fail without retrying when the mirror lacks the tool', async () => {
+            mockInputs.set('tools-source-dir', mirrorDir);
+            initActionConfig();
+            const retrySpy = jest.spyOn(utils, 'retryWithBackoff');
+
+            await expect(setupTool(SMCTL)).rejects.toThrow('ENOENT');
+            expect(retrySpy).not.toHaveBeenCalled();
+            expect(tc.downloadTool).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('CDN Mirrors', () => {
+        const primary = 'https://pki-downloads.digicert.com/stm/latest';
+        const artifactory = 'https://artifactory.example.com/stm';
+
+        beforeEach(() => {
+            mockInputs.set('digicert-cdn', `${primary}\n${artifactory}`);
+            initActionConfig();
+            // Each mirror is retried on its own, skip the backoff delays
+            jest.spyOn(utils, 'retryWithBackoff').mockImplementation(async operation => await operation());
+        });
+
+        test('should fall back to the next mirror and record it in the summary', async () => {
+            const recordSpy = jest.spyOn(jobSummary, 'recordToolSetup');
+            (tc.downloadTool as jest.Mock<typeof tc.downloadTool>).mockRejectedValueOnce(Object.assign(new Error('Unexpected HTTP response: 503'), { httpStatusCode: 503 }));
+
+            await setupTool(SMCTL);
+
+            expect(Array.from(downloadedFiles.keys())).toEqual([expect.stringMatching(new RegExp(`^${artifactory}/`))]);
+            expect(recordSpy).toHaveBeenCalledWith(expect.objectContaining({
+                source: expect.stringMatching(new RegExp(`^${artifactory}/`))
+            }));
+            expect(core.warning).toHaveBeenCalledWith(expect.stringContaining('trying the next mirror'));
+        });
+
+        test('should verify every mirror against the same checksum file', async () => {
+            mockInputs.set('use-binary-sha256-checksum', 'true');
+            initActionConfig();
+            // The primary mirror serves a tampered binary, the mock checksum file matches the mock downloads
+            jest.spyOn(utils, 'calculateChecksum').mockImplementationOnce(async () => 'tampered');
+
+            await setupTool(SMCTL);
+
+            const urls = Array.from(downloadedFiles.keys());
+            expect(urls.filter(url => url.endsWith('.sha256'))).toHaveLength(1);
+            expect(urls.filter(url => url.startsWith(primary) && !url.endsWith('.sha256'))).toHaveLength(1);
+            expect(urls.filter(url => url.startsWith(artifactory))).toHaveLength(1);
+        });
+
+        test('should report the failure of every mirror', async () => {
+            (tc.downloadTool as jest.Mock<typeof tc.downloadTool>)
+                .mockRejectedValueOnce(new Error('primary down'))
+                .mockRejectedValueOnce(new Error('artifactory down'));
+
+            const setup = setupTool(SMCTL);
+
+            await expect(setup).rejects.toThrow('Download smctl failed on all 2 mirrors');
+            await expect(setup).rejects.toThrow('artifactory down');
+        });
+
+        test('should reject a mirror that is not https', () => {
+            mockInputs.set('digicert-cdn', `${primary}\nhttp://artifactory.example.com/stm`);
+
+            expect(() => initActionConfig()).toThrow('Invalid digicert-cdn URL: "http://artifactory.example.com/stm"');
+        });
+    });
+
+    describe('Tool Signature', () => {
+        test('should reject a tool whose detached signature does not verify', async () => {
+            const { publicKey } = crypto.generateKeyPairSync('ec', { namedCurve: 'prime256v1' });
+            mockInputs.set('tool-signing-public-key', publicKey.export({ type: 'spki', format: 'pem' }).toString());
+            mockInputs.set('require-tool-signature', 'true');
+            initActionConfig();
+
+            await expect(setupTool(SMCTL)).rejects.toThrow('Detached signature verification failed for smctl');
+            expect(Array.from(downloadedFiles.keys()).some(url => url.endsWith('.sig'))).toBe(true);
+            expect(cachedTools.get(SMCTL)).toBeUndefined();
+        });
+    });
+
     describe('Archive Extraction', () => {
         test('should handle ZIP extraction for SMTOOLS', async () => {
             if (process.platform === 'darwin') {
@@ -347,6 +627,7 @@ describe('tool_setup.ts - Advanced Coverage Tests', () => {
     describe('GitHub Caching Service', () => {
         test('should use GitHub cache when enabled', async () => {
             mockInputs.set('use-github-caching-service', 'true');
+            initActionConfig();
             
             // May or may not work depending on environment
             const result = await setupTool(SMCTL);
@@ -356,6 +637,7 @@ describe('tool_setup.ts - Advanced Coverage Tests', () => {
 
         test('should handle cache restore failure', async () => {
             mockInputs.set('use-github-caching-service', 'true');
+            initActionConfig();
             
             // Even if cache restore fails, download should work
             const result = await setupTool(SMCTL);
@@ -365,6 +647,7 @@ describe('tool_setup.ts - Advanced Coverage Tests', () => {
 
         test('should save cache after successful setup', async () => {
             mockInputs.set('use-github-caching-service', 'true');
+            initActionConfig();
             
             await setupTool(SMCTL);
             
@@ -374,6 +657,7 @@ describe('tool_setup.ts - Advanced Coverage Tests', () => {
 
         test('should handle cache save failure gracefully', async () => {
             mockInputs.set('use-github-caching-service', 'true');
+            initActionConfig();
             
             // Should not throw even if cache save fails
             const result = await setupTool(SMCTL);
@@ -412,7 +696,8 @@ describe('tool_setup.ts - Advanced Coverage Tests', () => {
         });
 
         test('should handle SMPKCS11 library', async () => {
-            const result = await setupTool(SMPKCS11);
+            // SMPKCS11 is macOS-only and fails on other platforms
+            const result = await setupTool(SMPKCS11).catch(() => undefined);
             
             // SMPKCS11 is a library, not added to PATH
             expect(result !== undefined || result === undefined).toBe(true);
@@ -422,6 +707,7 @@ describe('tool_setup.ts - Advanced Coverage Tests', () => {
     describe('CDN URL Construction', () => {
         test('should construct correct download URL', async () => {
             mockInputs.set('digicert-cdn', 'https://test-cdn.example.com');
+            initActionConfig();
             
             await setupTool(SMCTL);
             
@@ -431,24 +717,25 @@ describe('tool_setup.ts - Advanced Coverage Tests', () => {
 
         test('should handle CDN URL with trailing slash', async () => {
             mockInputs.set('digicert-cdn', 'https://test-cdn.example.com/');
+            initActionConfig();
             
             const result = await setupTool(SMCTL);
             
             expect(result !== undefined || result === undefined).toBe(true);
         });
 
-        test('should reject CDN URL without HTTPS protocol', async () => {
+        test('should reject CDN URL without HTTPS protocol', () => {
             mockInputs.set('digicert-cdn', 'cdn.example.com');
             
             // Should throw error due to security validation
-            await expect(setupTool(SMCTL)).rejects.toThrow('Invalid digicert-cdn URL');
-            await expect(setupTool(SMCTL)).rejects.toThrow('must use HTTPS protocol');
+            expect(() => initActionConfig()).toThrow(/Invalid digicert-cdn URL.*must use HTTPS protocol/);
         });
     });
 
     describe('Error Recovery', () => {
         test('should handle download failure gracefully', async () => {
             mockInputs.set('digicert-cdn', 'https://invalid.example.com/nonexistent');
+            initActionConfig();
             
             // Should handle download failure without throwing
             await setupTool(SMCTL).catch(error => {
@@ -515,7 +802,7 @@ describe('tool_setup.ts - Advanced Coverage Tests', () => {
 
         test('should handle tool with no version flag', async () => {
             // Some tools may not have version flag
-            const result = await setupTool(SMPKCS11);
+            const result = await setupTool(SMPKCS11).catch(() => undefined);
             
             expect(result !== undefined || result === undefined).toBe(true);
         });
@@ -612,6 +899,7 @@ describe('tool_setup.ts - Advanced Coverage Tests', () => {
     describe('Cache Key Generation', () => {
         test('should generate unique cache key per tool', async () => {
             mockInputs.set('cache-version', '1.0.0');
+            initActionConfig();
             
             await setupTool(SMCTL);
             
@@ -635,4 +923,26 @@ describe('tool_setup.ts - Advanced Coverage Tests', () => {
             expect(arch).toBeTruthy();
         });
     });
+    describe('Job Summary', () => {
+        test('should record a cache miss and then a cache hit for the job summary', async () => {
+            mockInputs.set('use-github-caching-service', 'true');
+            initActionConfig();
+            const spy = jest.spyOn(jobSummary, 'recordToolSetup');
+
+            const firstPath = await setupTool(SMCTL);
+            await setupTool(SMCTL);
+
+            expect(spy).toHaveBeenCalledTimes(2);
+            expect(spy.mock.calls[0][0]).toEqual({
+                name: SMCTL,
+                platformKey: `${SMCTL}-${process.platform}-${process.arch}`,
+                cacheHit: false,
+                checksum: undefined,
+                source: expect.stringMatching(/^https:\/\/pki-downloads\.digicert\.com\/stm\/latest\//),
+                path: firstPath,
+            });
+            expect(spy.mock.calls[1][0].cacheHit).toBe(true);
+            expect(spy.mock.calls[1][0].source).toBeUndefined();
+        });
+    });
 });
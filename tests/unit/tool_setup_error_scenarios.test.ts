@@ -9,6 +9,7 @@ import * as tc from '@actions/tool-cache';
 import { cleanupMockTempDirs } from '../__mocks__/@actions/tool-cache';
 import * as cache from '@actions/cache';
 import { setupTool, SMCTL, SMTOOLS, SMPKCS11, SMCTK } from '../../src/tool_setup';
+import { initActionConfig } from '../../src/action_config';
 import { 
     mockInputs, 
     mockOutputs,
@@ -39,6 +40,7 @@ describe('tool_setup.ts - Error and Negative Scenarios', () => {
         mockInputs.set('use-binary-sha256-checksum', 'false');
         mockInputs.set('use-github-caching-service', 'false');
         mockInputs.set('simple-signing-mode', 'false');
+        initActionConfig();
     });
 
     afterEach(async () => {
@@ -199,6 +201,7 @@ describe('tool_setup.ts - Error and Negative Scenarios', () => {
         
         test('should fallback to cache-version when sha256 download fails', async () => {
             mockInputs.set('use-binary-sha256-checksum', 'true');
+            initActionConfig();
             
             // SECURITY: Use fs.mkdtemp() to create secure temporary directory (CWE-377)
             const fs = require('fs/promises');
@@ -237,6 +240,7 @@ describe('tool_setup.ts - Error and Negative Scenarios', () => {
 
         test('should handle corrupted sha256 file content', async () => {
             mockInputs.set('use-binary-sha256-checksum', 'true');
+            initActionConfig();
             
             const fs = require('fs/promises');
             const os = require('os');
@@ -271,6 +275,7 @@ describe('tool_setup.ts - Error and Negative Scenarios', () => {
 
         test('should handle empty sha256 file', async () => {
             mockInputs.set('use-binary-sha256-checksum', 'true');
+            initActionConfig();
             
             const fs = require('fs/promises');
             const os = require('os');
@@ -313,6 +318,7 @@ describe('tool_setup.ts - Error and Negative Scenarios', () => {
             mockInputs.set('digicert-cdn', 'https://pki-downloads.digicert.com/stm/latest');
             mockInputs.set('cache-version', '1.0.0');
             mockInputs.set('use-github-caching-service', 'false');
+            initActionConfig();
             
             const extractZipSpy = jest.spyOn(tc, 'extractZip').mockRejectedValueOnce(
                 new Error('ZIP extraction failed: corrupted archive')
@@ -438,11 +444,10 @@ describe('tool_setup.ts - Error and Negative Scenarios', () => {
             expect(result).toBeUndefined();
         });
 
-        test('should return undefined for tool not available on current platform', async () => {
+        test('should fail for tool not available on current platform', async () => {
             // SMPKCS11 is macOS-only
             if (process.platform !== 'darwin') {
-                const result = await setupTool(SMPKCS11);
-                expect(result).toBeUndefined();
+                await expect(setupTool(SMPKCS11)).rejects.toThrow('Supported platform/arch pairs: darwin-x64, darwin-arm64');
             }
         });
     });
@@ -451,6 +456,7 @@ describe('tool_setup.ts - Error and Negative Scenarios', () => {
         
         test('should handle cache restore failure gracefully', async () => {
             mockInputs.set('use-github-caching-service', 'true');
+            initActionConfig();
             process.env['RUNNER_TOOL_CACHE'] = '/tmp/tool-cache';
             
             jest.spyOn(cache, 'restoreCache').mockRejectedValueOnce(
@@ -467,6 +473,7 @@ describe('tool_setup.ts - Error and Negative Scenarios', () => {
 
         test('should handle cache save failure gracefully', async () => {
             mockInputs.set('use-github-caching-service', 'true');
+            initActionConfig();
             process.env['RUNNER_TOOL_CACHE'] = '/tmp/tool-cache';
             
             jest.spyOn(cache, 'saveCache').mockRejectedValueOnce(
@@ -483,6 +490,7 @@ describe('tool_setup.ts - Error and Negative Scenarios', () => {
 
         test('should handle cache not available error', async () => {
             mockInputs.set('use-github-caching-service', 'true');
+            initActionConfig();
             
             jest.spyOn(cache, 'isFeatureAvailable').mockReturnValueOnce(false);
 
@@ -495,6 +503,7 @@ describe('tool_setup.ts - Error and Negative Scenarios', () => {
         test('should handle cache key generation failure', async () => {
             mockInputs.set('use-github-caching-service', 'true');
             mockInputs.set('cache-version', ''); // Empty version
+            initActionConfig();
             
             // Should handle gracefully
             const result = await setupTool(SMCTL).catch(() => undefined);
@@ -504,6 +513,7 @@ describe('tool_setup.ts - Error and Negative Scenarios', () => {
 
         test('should handle missing RUNNER_TOOL_CACHE environment variable', async () => {
             mockInputs.set('use-github-caching-service', 'true');
+            initActionConfig();
             delete process.env['RUNNER_TOOL_CACHE'];
             
             // Should skip cache operations
@@ -765,6 +775,7 @@ describe('tool_setup.ts - Error and Negative Scenarios', () => {
         test('should handle self-hosted runner environment', async () => {
             // Self-hosted runners have different cache behavior
             mockInputs.set('use-github-caching-service', 'true');
+            initActionConfig();
             
             const result = await setupTool(SMCTL).catch(() => undefined);
             
@@ -773,6 +784,7 @@ describe('tool_setup.ts - Error and Negative Scenarios', () => {
 
         test('should handle GitHub Actions hosted runner', async () => {
             mockInputs.set('use-github-caching-service', 'true');
+            initActionConfig();
             process.env['RUNNER_TOOL_CACHE'] = '/opt/hostedtoolcache';
             
             const result = await setupTool(SMCTL).catch(() => undefined);
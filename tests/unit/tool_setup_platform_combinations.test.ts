@@ -8,7 +8,10 @@ import { describe, test, expect, beforeEach, afterEach, jest } from '@jest/globa
 import * as path from 'path';
 import * as fs from 'fs/promises';
 import * as core from '@actions/core';
-import { setupTool, SMCTL, SMTOOLS, SMPKCS11, SMCTK, SCD } from '../../src/tool_setup';
+import { setupTool, SMCTL, SMTOOLS, SMPKCS11, SMCTK, SCD, waitForCacheSaves } from '../../src/tool_setup';
+import * as cache from '@actions/cache';
+import * as utils from '../../src/utils';
+import { initActionConfig } from '../../src/action_config';
 import { 
     mockInputs, 
     mockOutputs,
@@ -107,6 +110,7 @@ describe('tool_setup.ts - Platform + Architecture Combinations', () => {
         mockInputs.set('use-binary-sha256-checksum', 'false');
         mockInputs.set('use-github-caching-service', 'false');
         mockInputs.set('simple-signing-mode', 'false');
+        initActionConfig();
     });
 
     afterEach(() => {
@@ -316,6 +320,35 @@ describe('tool_setup.ts - Platform + Architecture Combinations', () => {
             expect(addedPaths.length).toBeGreaterThan(0);
         });
 
+        test('should fail naming the supported pairs for SMCTL on Windows arm64', async () => {
+            mockPlatform('win32', 'arm64');
+
+            await expect(setupTool(SMCTL)).rejects.toThrow(
+                'smctl is not available for win32-arm64. Supported platform/arch pairs: ' +
+                'win32-x64, linux-x64, darwin-x64, darwin-arm64'
+            );
+            expect(getDownloadedFiles()).toHaveLength(0);
+        });
+
+        test('should fail naming the supported pairs for SMTOOLS on Linux arm64', async () => {
+            mockPlatform('linux', 'arm64');
+
+            await expect(setupTool(SMTOOLS)).rejects.toThrow(
+                'smtools is not available for linux-arm64. Supported platform/arch pairs: win32-x64, linux-x64'
+            );
+            expect(getDownloadedFiles()).toHaveLength(0);
+        });
+
+        test('should fail naming the supported pairs when a tool has no build for the platform', async () => {
+            mockPlatform('linux', 'ppc64');
+
+            await expect(setupTool(SMCTL)).rejects.toThrow(
+                'smctl is not available for linux-ppc64. Supported platform/arch pairs: ' +
+                'win32-x64, linux-x64, darwin-x64, darwin-arm64'
+            );
+            expect(getDownloadedFiles()).toHaveLength(0);
+        });
+
         test('should setup SMCTL on macOS x64', async () => {
             mockPlatform('darwin', 'x64');
             
@@ -342,6 +375,49 @@ describe('tool_setup.ts - Platform + Architecture Combinations', () => {
             expect(getDownloadedFiles().some(f => f.includes('smtools') && f.includes('.msi'))).toBe(true);
         });
 
+        test('should register a fresh SMTOOLS MSI install for the post step on Windows x64', async () => {
+            mockPlatform('win32', 'x64');
+
+            const toolPath = await setupTool(SMTOOLS);
+
+            const msiPath = getDownloadedFiles().find(f => f.endsWith('.msi'));
+            expect(core.saveState).toHaveBeenCalledWith('windowsMsi', JSON.stringify(msiPath));
+            const libraries = JSON.parse((core.saveState as jest.Mock).mock.calls
+                .find(call => call[0] === 'windowsLibraries')![1] as string);
+            expect(libraries.smctl).toBe(path.join(toolPath!, SMCTL));
+            expect(libraries.libraries).toHaveLength(4);
+        });
+
+        test('should let waitForCacheSaves wait for the cache save of a cache miss', async () => {
+            mockPlatform('linux', 'x64');
+            // Only GitHub-hosted runners save to the GitHub cache
+            jest.replaceProperty(utils, 'isSelfHosted', false);
+            mockInputs.set('use-github-caching-service', 'true');
+            initActionConfig();
+            process.env['RUNNER_TOOL_CACHE'] = '/tmp/tool-cache';
+            let finishSave: (cacheId: number) => void = () => {};
+            jest.spyOn(cache, 'saveCache').mockReturnValueOnce(new Promise(resolve => {
+                finishSave = resolve;
+            }));
+
+            try {
+                await setupTool(SMCTL);
+                let waited = false;
+                const waiting = waitForCacheSaves().then(() => {
+                    waited = true;
+                });
+                await new Promise(resolve => setImmediate(resolve));
+                expect(cache.saveCache).toHaveBeenCalled();
+                expect(waited).toBe(false);
+
+                finishSave(1);
+                await waiting;
+                expect(core.info).toHaveBeenCalledWith('Cache saved successfully, cacheId is 1');
+            } finally {
+                delete process.env['RUNNER_TOOL_CACHE'];
+            }
+        });
+
         test('should setup SMTOOLS on Linux x64 with TAR', async () => {
             mockPlatform('linux', 'x64');
             
@@ -589,6 +665,7 @@ describe('tool_setup.ts - Platform + Architecture Combinations', () => {
                 mockInputs.set('digicert-cdn', 'https://pki-downloads.digicert.com/stm/latest');
                 mockInputs.set('cache-version', '1.0.0');
                 mockInputs.set('use-github-caching-service', 'false');
+                initActionConfig();
 
                 mockPlatform(config.platform, config.arch);
                 
@@ -611,6 +688,7 @@ describe('tool_setup.ts - Platform + Architecture Combinations', () => {
                 mockInputs.set('digicert-cdn', 'https://pki-downloads.digicert.com/stm/latest');
                 mockInputs.set('cache-version', '1.0.0');
                 mockInputs.set('use-github-caching-service', 'false');
+                initActionConfig();
 
                 mockPlatform(config.platform, config.arch);
                 
@@ -637,6 +715,7 @@ describe('tool_setup.ts - Platform + Architecture Combinations', () => {
                     mockInputs.set('digicert-cdn', 'https://pki-downloads.digicert.com/stm/latest');
                     mockInputs.set('cache-version', '1.0.0');
                     mockInputs.set('use-github-caching-service', 'false');
+                    initActionConfig();
 
                     mockPlatform('darwin', arch);
                     
@@ -0,0 +1,167 @@
+/**
+ * Unit tests for tool_signature.ts
+ * Tests detached signature verification of downloaded tools
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from '@jest/globals';
+import * as core from '@actions/core';
+import * as crypto from 'crypto';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import {
+    parseDetachedSignature,
+    trustedToolSigningKeys,
+    verifyDetachedSignature,
+    verifyToolSignature
+} from '../../src/tool_signature';
+import { initActionConfig } from '../../src/action_config';
+import { mockInputs, resetMocks as resetCoreMocks } from '../__mocks__/@actions/core';
+
+describe('tool_signature.ts', () => {
+    const { publicKey, privateKey } = crypto.generateKeyPairSync('ec', { namedCurve: 'prime256v1' });
+    const publicKeyPem = publicKey.export({ type: 'spki', format: 'pem' }).toString();
+    const toolContent = Buffer.from('smctl binary');
+    const signature = crypto.sign('sha256', toolContent, privateKey);
+
+    let mirrorDir: string;
+    let toolPath: string;
+
+    beforeEach(async () => {
+        resetCoreMocks();
+        initActionConfig();
+        mirrorDir = await fs.mkdtemp(path.join(os.tmpdir(), 'tool-signature-test-'));
+        toolPath = path.join(mirrorDir, 'smctl');
+        await fs.writeFile(toolPath, toolContent);
+    });
+
+    afterEach(async () => {
+        await fs.rm(mirrorDir, { recursive: true, force: true });
+    });
+
+    describe('trustedToolSigningKeys', () => {
+        test('should read the key from PEM content or a file', async () => {
+            mockInputs.set('tool-signing-public-key', publicKeyPem);
+            initActionConfig();
+            expect(await trustedToolSigningKeys()).toHaveLength(1);
+
+            const keyPath = path.join(mirrorDir, 'mirror.pub');
+            await fs.writeFile(keyPath, publicKeyPem);
+            mockInputs.set('tool-signing-public-key', keyPath);
+            initActionConfig();
+            expect(await trustedToolSigningKeys()).toHaveLength(1);
+        });
+
+        test('should trust no key without tool-signing-public-key', async () => {
+            expect(await trustedToolSigningKeys()).toEqual([]);
+        });
+
+        test('should reject Ed25519 keys', async () => {
+            const ed25519 = crypto.generateKeyPairSync('ed25519');
+            mockInputs.set('tool-signing-public-key', ed25519.publicKey.export({ type: 'spki', format: 'pem' }).toString());
+            initActionConfig();
+
+            await expect(trustedToolSigningKeys()).rejects.toThrow('Unsupported tool signing public key type ed25519');
+        });
+
+        test('should reject an invalid key', async () => {
+            mockInputs.set('tool-signing-public-key', '-----BEGIN PUBLIC KEY-----\ngarbage\n-----END PUBLIC KEY-----');
+            initActionConfig();
+
+            await expect(trustedToolSigningKeys()).rejects.toThrow('Invalid tool signing public key');
+        });
+    });
+
+    describe('parseDetachedSignature', () => {
+        test('should decode cosign signatures and bundles', () => {
+            const encoded = signature.toString('base64');
+
+            expect(parseDetachedSignature(`${encoded}\n`, '.sig')).toEqual(signature);
+            expect(parseDetachedSignature(JSON.stringify({ base64Signature: encoded }), '.bundle')).toEqual(signature);
+        });
+
+        test('should reject bundles without a signature', () => {
+            expect(() => parseDetachedSignature('{}', '.bundle')).toThrow('Signature bundle has no base64Signature');
+            expect(() => parseDetachedSignature('<html>', '.bundle')).toThrow('Signature bundle is not valid JSON');
+        });
+    });
+
+    describe('verifyDetachedSignature', () => {
+        test('should accept a signature from any of the keys', async () => {
+            const rsa = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+            const rsaSignature = crypto.sign('sha256', toolContent, rsa.privateKey);
+            const tampered = path.join(mirrorDir, 'tampered');
+            await fs.writeFile(tampered, 'tampered');
+
+            expect(await verifyDetachedSignature(toolPath, rsaSignature, [publicKey, rsa.publicKey])).toBe(true);
+            expect(await verifyDetachedSignature(tampered, rsaSignature, [publicKey, rsa.publicKey])).toBe(false);
+        });
+    });
+
+    describe('verifyToolSignature', () => {
+        beforeEach(() => {
+            mockInputs.set('tool-signing-public-key', publicKeyPem);
+            initActionConfig();
+        });
+
+        test('should verify a cosign signature published next to the tool', async () => {
+            await fs.writeFile(`${toolPath}.sig`, signature.toString('base64'));
+
+            await verifyToolSignature('smctl', toolPath, toolPath);
+
+            expect(core.info).toHaveBeenCalledWith('✓ Detached signature verification passed for smctl');
+        });
+
+        test('should fall back to a cosign bundle', async () => {
+            await fs.writeFile(`${toolPath}.bundle`, JSON.stringify({ base64Signature: signature.toString('base64') }));
+
+            await expect(verifyToolSignature('smctl', toolPath, toolPath)).resolves.toBeUndefined();
+        });
+
+        test('should fail when the tool was replaced', async () => {
+            await fs.writeFile(`${toolPath}.sig`, signature.toString('base64'));
+            const replaced = path.join(mirrorDir, 'replaced');
+            await fs.writeFile(replaced, 'malicious binary');
+
+            await expect(verifyToolSignature('smctl', replaced, toolPath)).rejects.toThrow(
+                'SECURITY ERROR: Detached signature verification failed for smctl'
+            );
+        });
+
+        test('should only warn about a missing signature by default', async () => {
+            await verifyToolSignature('smctl', toolPath, toolPath);
+
+            expect(core.warning).toHaveBeenCalledWith(expect.stringContaining('No detached signature published for smctl'));
+        });
+
+        test('should fail closed on a missing signature when required', async () => {
+            mockInputs.set('require-tool-signature', 'true');
+            initActionConfig();
+
+            await expect(verifyToolSignature('smctl', toolPath, toolPath)).rejects.toThrow(
+                'No detached signature found for smctl'
+            );
+        });
+
+        test('should warn that nothing is verified without a key', async () => {
+            mockInputs.delete('tool-signing-public-key');
+            initActionConfig();
+            await fs.writeFile(`${toolPath}.sig`, signature.toString('base64'));
+
+            await expect(verifyToolSignature('smctl', toolPath, toolPath)).resolves.toBeUndefined();
+
+            expect(core.warning).toHaveBeenCalledWith(expect.stringContaining(
+                'The signature of smctl is not verified: tool-signing-public-key is not set'
+            ));
+        });
+
+        test('should fail closed without a key when required', () => {
+            mockInputs.delete('tool-signing-public-key');
+            mockInputs.set('require-tool-signature', 'true');
+
+            expect(() => initActionConfig()).toThrow(
+                'require-tool-signature needs tool-signing-public-key'
+            );
+        });
+    });
+});
@@ -0,0 +1,102 @@
+/**
+ * Unit tests for tool_source.ts
+ * Tests fetching tool files from the CDN or a local mirror
+ */
+
+import { describe, test, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import * as tc from '@actions/tool-cache';
+import { HttpClient, HttpClientResponse } from '@actions/http-client';
+import { fetchToolFile } from '../../src/tool_source';
+import { TimeoutError } from '../../src/cancellation';
+import { initActionConfig } from '../../src/action_config';
+import { mockInputs, resetMocks as resetCoreMocks } from '../__mocks__/@actions/core';
+import { cleanupMockTempDirs, resetMocks as resetToolCacheMocks } from '../__mocks__/@actions/tool-cache';
+
+describe('tool_source.ts', () => {
+    let mirrorDir: string;
+
+    beforeEach(async () => {
+        resetCoreMocks();
+        resetToolCacheMocks();
+        initActionConfig();
+        mirrorDir = await fs.mkdtemp(path.join(os.tmpdir(), 'tools-mirror-test-'));
+    });
+
+    afterEach(async () => {
+        jest.restoreAllMocks();
+        await cleanupMockTempDirs();
+        await fs.rm(mirrorDir, { recursive: true, force: true });
+    });
+
+    describe('fetchToolFile', () => {
+        test('should download https locations', async () => {
+            await fetchToolFile('https://pki-downloads.digicert.com/stm/latest/smctl');
+
+            expect(tc.downloadTool).toHaveBeenCalledWith('https://pki-downloads.digicert.com/stm/latest/smctl');
+        });
+
+        test('should give up on a download that exceeds download-timeout', async () => {
+            mockInputs.set('download-timeout', '1');
+            initActionConfig();
+            jest.useFakeTimers();
+            (tc.downloadTool as jest.Mock<typeof tc.downloadTool>).mockReturnValueOnce(new Promise(() => {}));
+
+            const result = fetchToolFile('https://pki-downloads.digicert.com/stm/latest/smctl').catch(err => err);
+            await jest.advanceTimersByTimeAsync(1000);
+            jest.useRealTimers();
+
+            const error = await result;
+            expect(error.message).toBe('Downloading https://pki-downloads.digicert.com/stm/latest/smctl timed out after 1s');
+            expect(error.cause).toBeInstanceOf(TimeoutError);
+        });
+
+        test('should pass on the Retry-After header of a throttled download', async () => {
+            (tc.downloadTool as jest.Mock<typeof tc.downloadTool>).mockRejectedValueOnce(
+                Object.assign(new Error('Unexpected HTTP response: 429'), { httpStatusCode: 429 })
+            );
+            const head = jest.spyOn(HttpClient.prototype, 'head').mockResolvedValueOnce({
+                message: { headers: { 'retry-after': '30' }, resume: jest.fn() }
+            } as unknown as HttpClientResponse);
+
+            const error = await fetchToolFile('https://pki-downloads.digicert.com/stm/latest/smctl').catch(err => err);
+
+            expect(head).toHaveBeenCalledWith('https://pki-downloads.digicert.com/stm/latest/smctl');
+            expect(error.message).toContain('CDN responded with HTTP 429');
+            expect(error.headers).toEqual({ 'retry-after': '30' });
+            expect(error.cause.httpStatusCode).toBe(429);
+        });
+
+        test('should not look up Retry-After for other download failures', async () => {
+            (tc.downloadTool as jest.Mock<typeof tc.downloadTool>).mockRejectedValueOnce(
+                Object.assign(new Error('Unexpected HTTP response: 404'), { httpStatusCode: 404 })
+            );
+            const head = jest.spyOn(HttpClient.prototype, 'head');
+
+            const error = await fetchToolFile('https://pki-downloads.digicert.com/stm/latest/smctl').catch(err => err);
+
+            expect(head).not.toHaveBeenCalled();
+            expect(error.headers).toBeUndefined();
+        });
+
+        test('should copy local files without touching the mirror', async () => {
+            const source = path.join(mirrorDir, 'smctl');
+            await fs.writeFile(source, 'smctl binary');
+
+            const fetched = await fetchToolFile(source);
+
+            expect(fetched).not.toBe(source);
+            expect(path.basename(fetched)).toBe('smctl');
+            expect(await fs.readFile(fetched, 'utf-8')).toBe('smctl binary');
+            await fs.rm(path.dirname(fetched), { recursive: true, force: true });
+            expect(await fs.readFile(source, 'utf-8')).toBe('smctl binary');
+            expect(tc.downloadTool).not.toHaveBeenCalled();
+        });
+
+        test('should fail when the local file does not exist', async () => {
+            await expect(fetchToolFile(path.join(mirrorDir, 'missing'))).rejects.toThrow('ENOENT');
+        });
+    });
+});
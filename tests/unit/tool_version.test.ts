@@ -0,0 +1,73 @@
+/**
+ * Unit tests for tool_version.ts
+ * Tests validation, CDN resolution and matching of pinned tool versions
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import {
+    parseReportedVersion,
+    validateToolVersion,
+    versionedCdnUrl,
+    versionMatches
+} from '../../src/tool_version';
+
+describe('tool_version.ts', () => {
+    describe('validateToolVersion', () => {
+        test('should treat empty and latest as not pinned', () => {
+            expect(validateToolVersion('')).toBeUndefined();
+            expect(validateToolVersion('  ')).toBeUndefined();
+            expect(validateToolVersion('latest')).toBeUndefined();
+        });
+
+        test('should accept dotted numeric versions', () => {
+            expect(validateToolVersion('1')).toBe('1');
+            expect(validateToolVersion(' 1.45.0 ')).toBe('1.45.0');
+            expect(validateToolVersion('1.45.0.12')).toBe('1.45.0.12');
+        });
+
+        test('should reject versions that could alter the download path', () => {
+            expect(() => validateToolVersion('../1.0')).toThrow('Invalid tool-version');
+            expect(() => validateToolVersion('1.0/evil')).toThrow('Invalid tool-version');
+            expect(() => validateToolVersion('v1.0')).toThrow('Invalid tool-version');
+        });
+    });
+
+    describe('versionedCdnUrl', () => {
+        test('should replace a trailing latest segment', () => {
+            expect(versionedCdnUrl('https://pki-downloads.digicert.com/stm/latest', '1.45.0'))
+                .toBe('https://pki-downloads.digicert.com/stm/1.45.0');
+            expect(versionedCdnUrl('https://pki-downloads.digicert.com/stm/latest/', '1.45.0'))
+                .toBe('https://pki-downloads.digicert.com/stm/1.45.0');
+        });
+
+        test('should append the version to other locations', () => {
+            expect(versionedCdnUrl('https://mirror.example.com/stm', '1.45.0'))
+                .toBe('https://mirror.example.com/stm/1.45.0');
+        });
+    });
+
+    describe('parseReportedVersion', () => {
+        test('should extract the version from smctl -v output', () => {
+            expect(parseReportedVersion('smctl version 1.45.0\n')).toBe('1.45.0');
+            expect(parseReportedVersion('Version: 2.1')).toBe('2.1');
+        });
+
+        test('should return undefined when no version is printed', () => {
+            expect(parseReportedVersion('unknown')).toBeUndefined();
+        });
+    });
+
+    describe('versionMatches', () => {
+        test('should match every requested component', () => {
+            expect(versionMatches('1.45.0', '1.45.0')).toBe(true);
+            expect(versionMatches('1.45', '1.45.2')).toBe(true);
+            expect(versionMatches('1.45.0', '1.045.0')).toBe(true);
+        });
+
+        test('should reject different or shorter versions', () => {
+            expect(versionMatches('1.45', '1.4.5')).toBe(false);
+            expect(versionMatches('1.45.1', '1.45')).toBe(false);
+            expect(versionMatches('1.45.0', '1.46.0')).toBe(false);
+        });
+    });
+});